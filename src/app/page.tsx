@@ -1,6 +1,16 @@
 'use client'
 
+import { Suspense, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
 import { RubiksCube } from '@/components/RubiksCube'
+import { readSharedCase, replaceSharedCaseUrl } from '@/lib/cube/share'
+
+// Starts from the case in the query string and keeps the URL in step with it
+function SharedRubiksCube() {
+  const searchParams = useSearchParams()
+  const [initialCase] = useState(() => readSharedCase(searchParams))
+  return <RubiksCube initialCase={initialCase} onCaseChange={replaceSharedCaseUrl} />
+}
 
 export default function Home() {
   return (
@@ -16,7 +26,9 @@ export default function Home() {
         </div>
 
         <div className="max-w-6xl mx-auto">
-          <RubiksCube />
+          <Suspense>
+            <SharedRubiksCube />
+          </Suspense>
         </div>
 
         <div className="mt-16 text-center">
@@ -0,0 +1,77 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { type NotationStep, NotationError, parseNotationSteps } from '@/lib/cube/notation'
+
+type AlgorithmInputProps = {
+  // Layers per edge of the cube the moves are for
+  size: number
+  value: string
+  onValueChange: (value: string) => void
+  onSubmit: (steps: NotationStep[]) => void
+  // Turns are paused, e.g. while painting stickers
+  disabled?: boolean
+}
+
+type ParseResult =
+  | { ok: true; steps: NotationStep[]; turns: number }
+  | { ok: false; error: NotationError }
+
+export function AlgorithmInput({ size, value: text, onValueChange, onSubmit, disabled = false }: AlgorithmInputProps) {
+
+  const result = useMemo<ParseResult | null>(() => {
+    if (!text.trim()) return null
+    try {
+      const steps = parseNotationSteps(text, size)
+      return { ok: true, steps, turns: steps.reduce((n, step) => n + step.moves.length, 0) }
+    } catch (e) {
+      if (e instanceof NotationError) return { ok: false, error: e }
+      throw e
+    }
+  }, [text, size])
+
+  const canSubmit = !disabled && result?.ok === true && result.steps.length > 0
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit || !result?.ok) return
+    onSubmit(result.steps)
+  }
+
+  return (
+    <form onSubmit={submit} className="w-full flex flex-col gap-2">
+      <div className="flex gap-2">
+        <Input
+          value={text}
+          onChange={e => onValueChange(e.target.value)}
+          placeholder="Algorithm, e.g. (R U R' U')3 F2"
+          aria-invalid={result?.ok === false}
+          spellCheck={false}
+          className="font-mono text-white bg-black/40 border-white/20 placeholder:text-white/40"
+        />
+        <Button type="submit" disabled={!canSubmit} className="bg-emerald-600 hover:bg-emerald-500 text-white font-semibold">
+          Play
+        </Button>
+      </div>
+      <div className="min-h-5 text-sm font-mono">
+        {result?.ok === true && (
+          <span className="text-white/60">
+            {result.turns} {result.turns === 1 ? 'layer turn' : 'layer turns'}
+          </span>
+        )}
+        {result?.ok === false && (
+          <span className="text-red-400">
+            {result.error.message}
+            <span className="block text-white/60 whitespace-pre">
+              {text}
+              {'\n'}
+              {' '.repeat(result.error.index)}^
+            </span>
+          </span>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import React from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import {
+  type AnimationSettings,
+  type EasingId,
+  EASINGS,
+  MAX_TURN_DURATION,
+  MIN_TURN_DURATION,
+} from '@/lib/cube/animation'
+
+type AnimationSettingsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: AnimationSettings
+  onChange: (changes: Partial<AnimationSettings>) => void
+}
+
+export function AnimationSettingsDialog({ open, onOpenChange, settings, onChange }: AnimationSettingsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Turn animation</DialogTitle>
+          <DialogDescription>
+            How long a quarter turn takes and how it moves.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-5">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="instant-turns">Instant turns</Label>
+            <Switch
+              id="instant-turns"
+              checked={settings.instant}
+              onCheckedChange={instant => onChange({ instant })}
+            />
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+              <Label>Turn duration</Label>
+              <span className="font-mono text-sm text-muted-foreground">{settings.duration} ms</span>
+            </div>
+            <Slider
+              value={[settings.duration]}
+              min={MIN_TURN_DURATION}
+              max={MAX_TURN_DURATION}
+              step={10}
+              disabled={settings.instant}
+              onValueChange={([duration]) => onChange({ duration })}
+              aria-label="Turn duration"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label>Easing</Label>
+            <Select
+              value={settings.easing}
+              onValueChange={easing => onChange({ easing: easing as EasingId })}
+              disabled={settings.instant}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EASINGS.map(easing => (
+                  <SelectItem key={easing.id} value={easing.id}>{easing.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
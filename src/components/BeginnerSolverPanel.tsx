@@ -0,0 +1,112 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+import { type CubeState, applyMoves } from '@/lib/cube/model'
+import { cubeToFacelets } from '@/lib/cube/facelets'
+import { type NotationStep, parseNotation, parseNotationSteps } from '@/lib/cube/notation'
+import type { SolveStage } from '@/lib/cube/solver/beginner'
+import { useSolver } from '@/hooks/use-solver'
+
+type BeginnerSolverPanelProps = {
+  // The cube as it will be once all queued moves have played
+  getCube: () => CubeState[]
+  onPlayStage: (steps: NotationStep[]) => void
+}
+
+type Plan = {
+  stages: SolveStage[]
+  // Facelets expected before each stage, used to notice the cube was turned
+  expected: string[]
+}
+
+export function BeginnerSolverPanel({ getCube, onPlayStage }: BeginnerSolverPanelProps) {
+  const { solveStages, solving } = useSolver()
+  const [plan, setPlan] = useState<Plan | null>(null)
+  const [nextStage, setNextStage] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  const explain = async () => {
+    setError(null)
+    const cube = getCube()
+    try {
+      const stages = await solveStages(cubeToFacelets(cube))
+      const expected: string[] = []
+      let state = cube
+      for (const stage of stages) {
+        expected.push(cubeToFacelets(state))
+        state = applyMoves(state, parseNotation(stage.moves.join(' ')))
+      }
+      setPlan({ stages, expected })
+      setNextStage(0)
+    } catch (e) {
+      setPlan(null)
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  const playNext = () => {
+    if (!plan || nextStage >= plan.stages.length) return
+    if (cubeToFacelets(getCube()) !== plan.expected[nextStage]) {
+      setError('The cube was turned since this solution was made. Explain again to continue.')
+      return
+    }
+    setError(null)
+    onPlayStage(parseNotationSteps(plan.stages[nextStage].moves.join(' ')))
+    setNextStage(nextStage + 1)
+  }
+
+  const finished = plan !== null && nextStage >= plan.stages.length
+
+  return (
+    <div className="w-full lg:w-80 shrink-0 bg-black/50 backdrop-blur-md rounded-2xl p-4 text-white flex flex-col gap-3 lg:h-[600px]">
+      <div>
+        <h2 className="font-bold text-lg">Beginner&apos;s method</h2>
+        <p className="text-white/60 text-sm">Solve layer by layer, one stage at a time.</p>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={explain} disabled={solving} className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white">
+          {solving ? 'Thinking…' : plan ? 'Explain again' : 'Explain solution'}
+        </Button>
+        <Button
+          onClick={playNext}
+          disabled={!plan || finished}
+          className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white"
+        >
+          {finished ? 'Done' : 'Next stage'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {plan && (
+        <ScrollArea className="flex-1 min-h-0 -mx-1 px-1">
+          <ol className="flex flex-col gap-2">
+            {plan.stages.map((stage, i) => (
+              <li
+                key={stage.name}
+                className={cn(
+                  'rounded-lg p-3 border transition-colors',
+                  i === nextStage ? 'border-emerald-400 bg-emerald-400/10' : 'border-white/10',
+                  i < nextStage && 'opacity-50'
+                )}
+              >
+                <div className="flex justify-between items-baseline">
+                  <span className="font-semibold">{i + 1}. {stage.name}</span>
+                  <span className="text-xs text-white/50">{stage.moves.length} moves</span>
+                </div>
+                <p className="text-xs text-white/70 mt-1">{stage.explanation}</p>
+                <p className="font-mono text-xs text-white/90 mt-2 break-words">
+                  {stage.moves.length > 0 ? stage.moves.join(' ') : 'Already done'}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Textarea } from '@/components/ui/textarea'
+import type { CubeState } from '@/lib/cube/model'
+import { faceletsToCube, verifyFacelets } from '@/lib/cube/facelets'
+
+type FaceletDialogProps = {
+  // Export shows the current position, import asks for one to load
+  mode: 'import' | 'export' | null
+  onClose: () => void
+  // Facelet string of the cube as it will be once queued moves have played
+  current: string
+  onImport: (cube: CubeState[]) => void
+}
+
+export function FaceletDialog({ mode, onClose, current, onImport }: FaceletDialogProps) {
+  const [text, setText] = useState('')
+  const [copied, setCopied] = useState(false)
+  const [copyFailed, setCopyFailed] = useState(false)
+  const exportRef = useRef<HTMLTextAreaElement>(null)
+
+  // Spaces and line breaks are allowed for readability, e.g. one face per line
+  const facelets = text.replace(/\s+/g, '').toUpperCase()
+  const problem = facelets ? verifyFacelets(facelets) : null
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(current)
+      setCopied(true)
+    } catch {
+      // Clipboard access can be denied, e.g. outside a secure context. The
+      // text is selected instead so it can be copied by hand.
+      exportRef.current?.select()
+      setCopyFailed(true)
+    }
+  }
+
+  const close = () => {
+    setText('')
+    setCopied(false)
+    setCopyFailed(false)
+    onClose()
+  }
+
+  const load = () => {
+    if (!facelets || problem) return
+    onImport(faceletsToCube(facelets))
+    close()
+  }
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={open => !open && close()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{mode === 'export' ? 'Export position' : 'Import position'}</DialogTitle>
+          <DialogDescription>
+            54 facelets in URFDLB face order, each face read row by row, as used by Kociemba solvers.
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === 'export' ? (
+          <div className="flex flex-col gap-2">
+            <Textarea
+              ref={exportRef}
+              readOnly
+              value={current}
+              onFocus={e => e.target.select()}
+              className="font-mono break-all"
+            />
+            {copyFailed && (
+              <p className="text-sm text-destructive">
+                Could not copy to the clipboard. The text above is selected, copy it with Ctrl+C (Cmd+C on macOS).
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-2">
+            <Textarea
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder="UUUUUUUUURRRRRRRRRFFFFFFFFFDDDDDDDDDLLLLLLLLLBBBBBBBBB"
+              aria-invalid={problem !== null}
+              spellCheck={false}
+              className="font-mono break-all"
+            />
+            <p className="min-h-5 text-sm">
+              {problem && <span className="text-destructive">{problem}</span>}
+              {facelets && !problem && <span className="text-muted-foreground">Valid position</span>}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {mode === 'export' ? (
+            <Button onClick={copy}>{copied ? 'Copied' : 'Copy'}</Button>
+          ) : (
+            <Button onClick={load} disabled={!facelets || problem !== null}>Load</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
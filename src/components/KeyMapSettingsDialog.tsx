@@ -0,0 +1,104 @@
+'use client'
+
+import React, { useState } from 'react'
+import { XIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Kbd } from '@/components/ui/kbd'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { BINDABLE_MOVES, KEYMAP_PRESETS, type KeyMapSettings } from '@/lib/cube/keymap'
+
+type KeyMapSettingsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: KeyMapSettings
+  onSelectPreset: (id: string) => void
+  onBindKey: (key: string, move: string) => void
+  onUnbindKey: (key: string) => void
+}
+
+const formatKey = (key: string) => (key === ' ' ? 'Space' : key)
+
+export function KeyMapSettingsDialog({
+  open,
+  onOpenChange,
+  settings,
+  onSelectPreset,
+  onBindKey,
+  onUnbindKey,
+}: KeyMapSettingsDialogProps) {
+  // Move waiting for a key press to bind
+  const [capturing, setCapturing] = useState<string | null>(null)
+
+  const keysFor = (move: string) =>
+    Object.entries(settings.bindings).filter(([, m]) => m === move).map(([key]) => key)
+
+  const capture = (e: React.KeyboardEvent, move: string) => {
+    if (['Shift', 'Control', 'Alt', 'Meta', 'Tab'].includes(e.key)) return
+    e.preventDefault()
+    e.stopPropagation()
+    if (e.key !== 'Escape') onBindKey(e.key, move)
+    setCapturing(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={next => { setCapturing(null); onOpenChange(next) }}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Keyboard turning</DialogTitle>
+          <DialogDescription>
+            Pick a layout or click a move and press the key you want for it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={settings.preset} onValueChange={onSelectPreset}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {KEYMAP_PRESETS.map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+            ))}
+            {settings.preset === 'custom' && <SelectItem value="custom" disabled>Custom</SelectItem>}
+          </SelectContent>
+        </Select>
+
+        <ScrollArea className="h-80 pr-3">
+          <div className="grid grid-cols-2 gap-x-6 gap-y-1">
+            {BINDABLE_MOVES.map(move => (
+              <div key={move} className="flex items-center gap-2 py-1">
+                <span className="w-8 font-mono font-semibold">{move}</span>
+                <div className="flex flex-1 flex-wrap items-center gap-1">
+                  {keysFor(move).map(key => (
+                    <span key={key} className="inline-flex items-center">
+                      <Kbd>{formatKey(key)}</Kbd>
+                      <button
+                        type="button"
+                        onClick={() => onUnbindKey(key)}
+                        className="text-muted-foreground hover:text-foreground"
+                        aria-label={`Unbind ${formatKey(key)}`}
+                      >
+                        <XIcon className="size-3" />
+                      </button>
+                    </span>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setCapturing(move)}
+                    onKeyDown={e => capturing === move && capture(e, move)}
+                    onBlur={() => setCapturing(c => (c === move ? null : c))}
+                  >
+                    {capturing === move ? 'Press a key…' : '+'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
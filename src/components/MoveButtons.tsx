@@ -0,0 +1,89 @@
+'use client'
+
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { ButtonGroup } from '@/components/ui/button-group'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { cn } from '@/lib/utils'
+
+type MoveButtonsProps = {
+  size: number
+  // Called with the notation of the pressed move, e.g. R2 or M'
+  onMove: (notation: string) => void
+  // Turns are paused, e.g. while painting stickers
+  disabled?: boolean
+}
+
+type MoveFamily = {
+  label: string
+  // Letter and name of each move in the family
+  moves: [string, string][]
+}
+
+const FAMILIES: MoveFamily[] = [
+  {
+    label: 'Faces',
+    moves: [['R', 'Right'], ['L', 'Left'], ['U', 'Up'], ['D', 'Down'], ['F', 'Front'], ['B', 'Back']],
+  },
+  {
+    label: 'Slices',
+    moves: [['M', 'Middle slice (as L)'], ['E', 'Equator slice (as D)'], ['S', 'Standing slice (as F)']],
+  },
+  {
+    label: 'Wide',
+    moves: [
+      ['r', 'Right two layers'], ['l', 'Left two layers'], ['u', 'Up two layers'],
+      ['d', 'Down two layers'], ['f', 'Front two layers'], ['b', 'Back two layers'],
+    ],
+  },
+]
+
+// Turn suffixes offered for every move
+const TURNS: [string, string][] = [['', 'clockwise'], ["'", 'counter-clockwise'], ['2', 'half turn']]
+
+// Buttons are colored by the axis they turn about, as on the cube: red for
+// x, blue for y and green for z
+const AXIS_CLASS: Record<string, string> = {
+  R: 'bg-red-600 hover:bg-red-500', L: 'bg-red-600 hover:bg-red-500', M: 'bg-red-600 hover:bg-red-500',
+  U: 'bg-blue-600 hover:bg-blue-500', D: 'bg-blue-600 hover:bg-blue-500', E: 'bg-blue-600 hover:bg-blue-500',
+  F: 'bg-green-600 hover:bg-green-500', B: 'bg-green-600 hover:bg-green-500', S: 'bg-green-600 hover:bg-green-500',
+}
+
+export function MoveButtons({ size, onMove, disabled = false }: MoveButtonsProps) {
+  // Even cubes have no middle layer to turn
+  const families = size % 2 === 0 ? FAMILIES.filter(f => f.label !== 'Slices') : FAMILIES
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {families.map(family => (
+        <div key={family.label} className="flex flex-wrap items-center justify-center gap-2">
+          <span className="w-14 text-right text-xs font-semibold uppercase tracking-wide text-white/60">{family.label}</span>
+          {family.moves.map(([letter, name]) => (
+            <ButtonGroup key={letter} aria-label={name}>
+              {TURNS.map(([suffix, turn]) => {
+                const notation = letter + suffix
+                return (
+                  <Tooltip key={notation}>
+                    <TooltipTrigger asChild>
+                      <Button
+                        size="sm"
+                        disabled={disabled}
+                        onClick={() => onMove(notation)}
+                        className={cn('w-10 font-mono font-semibold text-white', AXIS_CLASS[letter.toUpperCase()])}
+                      >
+                        {notation}
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <span className="font-mono font-semibold">{notation}</span> · {name}, {turn}
+                    </TooltipContent>
+                  </Tooltip>
+                )
+              })}
+            </ButtonGroup>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { type Face, FACE_ORDER, verifyFacelets } from '@/lib/cube/facelets'
+
+type PaintPanelProps = {
+  // Sticker color of each face in the solved cube
+  palette: Record<Face, string>
+  selected: Face
+  onSelect: (face: Face) => void
+  // Painted position so far
+  facelets: string
+  onLoad: () => void
+  onCancel: () => void
+}
+
+export function PaintPanel({ palette, selected, onSelect, facelets, onLoad, onCancel }: PaintPanelProps) {
+  const problem = verifyFacelets(facelets)
+
+  return (
+    <div className="w-full lg:w-80 shrink-0 bg-black/50 backdrop-blur-md rounded-2xl p-4 text-white flex flex-col gap-4 lg:h-[600px]">
+      <div>
+        <h2 className="font-bold text-lg">Paint a position</h2>
+        <p className="text-white/60 text-sm">
+          Hold your cube with white on top and green in front, pick a color and click the stickers
+          to match it. Centers are fixed.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {FACE_ORDER.map(face => {
+          const count = [...facelets].filter(f => f === face).length
+          return (
+            <button
+              key={face}
+              type="button"
+              onClick={() => onSelect(face)}
+              className={cn(
+                'flex flex-col items-center gap-1 rounded-lg p-2 border-2 transition-colors',
+                face === selected ? 'border-white bg-white/10' : 'border-transparent hover:bg-white/5'
+              )}
+              aria-label={`Paint ${face}`}
+              aria-pressed={face === selected}
+            >
+              <span className="size-8 rounded-md shadow" style={{ backgroundColor: palette[face] }} />
+              <span className={cn('font-mono text-xs', count === 9 ? 'text-white/60' : 'text-red-400')}>{count}/9</span>
+            </button>
+          )
+        })}
+      </div>
+
+      <p className="text-sm min-h-5">
+        {problem ? <span className="text-red-400">{problem}</span> : <span className="text-emerald-400">Valid position</span>}
+      </p>
+
+      <div className="flex gap-2 mt-auto">
+        <Button onClick={onCancel} variant="outline" className="flex-1 bg-transparent text-white border-white/20 hover:bg-white/10 hover:text-white">
+          Cancel
+        </Button>
+        <Button onClick={onLoad} disabled={problem !== null} className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white">
+          Load
+        </Button>
+      </div>
+    </div>
+  )
+}
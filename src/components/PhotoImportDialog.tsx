@@ -0,0 +1,171 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+import type { CubeState } from '@/lib/cube/model'
+import { type Face, FACE_ORDER, faceletsToCube, verifyFacelets } from '@/lib/cube/facelets'
+import { type Rgb, classifyStickers, sampleGrid } from '@/lib/cube/color-detection'
+
+type PhotoImportDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Sticker color of each face in the solved cube
+  palette: Record<Face, string>
+  onImport: (cube: CubeState[]) => void
+}
+
+// Side of the square each photo is scaled to before sampling
+const SAMPLE_SIZE = 240
+
+// Which face has to be at the top of each photo, matching the facelet layout
+const TOP_EDGE: Record<Face, Face> = { U: 'B', R: 'U', F: 'U', D: 'F', L: 'U', B: 'U' }
+
+// Crops the middle square of an image file and scales it down
+async function loadFacePhoto(file: File): Promise<{ samples: Rgb[]; preview: string }> {
+  const bitmap = await createImageBitmap(file)
+  const side = Math.min(bitmap.width, bitmap.height)
+  const canvas = document.createElement('canvas')
+  canvas.width = SAMPLE_SIZE
+  canvas.height = SAMPLE_SIZE
+  const context = canvas.getContext('2d')!
+  context.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE)
+  bitmap.close()
+  return {
+    samples: sampleGrid(context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE)),
+    preview: canvas.toDataURL('image/jpeg', 0.8),
+  }
+}
+
+export function PhotoImportDialog({ open, onOpenChange, palette, onImport }: PhotoImportDialogProps) {
+  const [samples, setSamples] = useState<Partial<Record<Face, Rgb[]>>>({})
+  const [previews, setPreviews] = useState<Partial<Record<Face, string>>>({})
+  // Stickers fixed by hand, by facelet index, winning over detection
+  const [corrections, setCorrections] = useState<Record<number, Face>>({})
+  const [selected, setSelected] = useState<Face>('U')
+  const [error, setError] = useState<string | null>(null)
+
+  const detected = classifyStickers(samples)
+  const facelets = FACE_ORDER.flatMap((face, f) =>
+    detected[face].map((d, i) => corrections[f * 9 + i] ?? d ?? '?')
+  ).join('')
+  const missing = FACE_ORDER.filter(face => !samples[face])
+  const problem = missing.length > 0 ? `Add a photo of ${missing.join(', ')}` : verifyFacelets(facelets)
+
+  const choosePhoto = async (face: Face, file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    try {
+      const photo = await loadFacePhoto(file)
+      setSamples(prev => ({ ...prev, [face]: photo.samples }))
+      setPreviews(prev => ({ ...prev, [face]: photo.preview }))
+      // Corrections made to the previous photo of this face no longer apply
+      const f = FACE_ORDER.indexOf(face)
+      setCorrections(prev =>
+        Object.fromEntries(Object.entries(prev).filter(([index]) => Math.floor(Number(index) / 9) !== f))
+      )
+    } catch {
+      setError(`Could not read ${file.name} as an image`)
+    }
+  }
+
+  const correct = (index: number) => {
+    // The center of each face is what defines it
+    if (index % 9 === 4) return
+    setCorrections(prev => ({ ...prev, [index]: selected }))
+  }
+
+  const close = () => {
+    setSamples({})
+    setPreviews({})
+    setCorrections({})
+    setError(null)
+    onOpenChange(false)
+  }
+
+  const load = () => {
+    if (problem) return
+    onImport(faceletsToCube(facelets))
+    close()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={next => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from photos</DialogTitle>
+          <DialogDescription>
+            Take one photo per face, filling the frame with the face. Colors are detected on this device and
+            nothing is uploaded. Pick a color and click a sticker to fix a wrong detection.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          {FACE_ORDER.map(face => (
+            <button
+              key={face}
+              type="button"
+              onClick={() => setSelected(face)}
+              className={cn(
+                'size-8 rounded-md border-2 shadow',
+                face === selected ? 'border-foreground' : 'border-transparent'
+              )}
+              style={{ backgroundColor: palette[face] }}
+              aria-label={`Correct to ${face}`}
+              aria-pressed={face === selected}
+            />
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {FACE_ORDER.map((face, f) => (
+            <div key={face} className="flex flex-col gap-2 rounded-lg border p-3">
+              <div className="flex items-baseline justify-between text-sm">
+                <span className="font-semibold">{face} face</span>
+                <span className="text-muted-foreground">{TOP_EDGE[face]} at the top</span>
+              </div>
+              <div className="flex gap-2">
+                <label className="relative size-20 shrink-0 cursor-pointer overflow-hidden rounded-md border border-dashed text-xs text-muted-foreground flex items-center justify-center text-center">
+                  {previews[face] ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={previews[face]} alt={`${face} face`} className="absolute inset-0 size-full object-cover" />
+                  ) : (
+                    'Choose photo'
+                  )}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="sr-only"
+                    onChange={e => choosePhoto(face, e.target.files?.[0])}
+                  />
+                </label>
+                <div className="grid grid-cols-3 gap-0.5 size-20 shrink-0">
+                  {Array.from({ length: 9 }, (_, i) => {
+                    const letter = facelets[f * 9 + i]
+                    return (
+                      <button
+                        key={i}
+                        type="button"
+                        disabled={!samples[face] || i === 4}
+                        onClick={() => correct(f * 9 + i)}
+                        className="rounded-sm border border-black/20 disabled:cursor-default"
+                        style={{ backgroundColor: letter === '?' ? 'transparent' : palette[letter as Face] }}
+                        aria-label={`${face} sticker ${i + 1}`}
+                      />
+                    )
+                  })}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="items-center sm:justify-between">
+          <p className="text-sm text-destructive">{error ?? problem}</p>
+          <Button onClick={load} disabled={problem !== null}>Load</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
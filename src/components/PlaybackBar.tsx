@@ -0,0 +1,113 @@
+'use client'
+
+import React from 'react'
+import { PauseIcon, PlayIcon, StepBackIcon, StepForwardIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { cn } from '@/lib/utils'
+import { MAX_TURN_DURATION, MIN_TURN_DURATION } from '@/lib/cube/animation'
+
+type PlaybackBarProps = {
+  // Written moves of the loaded sequence
+  notation: string[]
+  // Number of moves played so far
+  position: number
+  playing: boolean
+  // Animation speed in turns per second
+  speed: number
+  onPlay: () => void
+  onPause: () => void
+  onStepBack: () => void
+  onStepForward: () => void
+  onSeek: (position: number) => void
+  onSpeedChange: (speed: number) => void
+}
+
+const MIN_SPEED = 1000 / MAX_TURN_DURATION
+const MAX_SPEED = 1000 / MIN_TURN_DURATION
+
+export function PlaybackBar({
+  notation,
+  position,
+  playing,
+  speed,
+  onPlay,
+  onPause,
+  onStepBack,
+  onStepForward,
+  onSeek,
+  onSpeedChange,
+}: PlaybackBarProps) {
+  const atEnd = position >= notation.length
+
+  return (
+    <div className="w-full flex flex-col gap-3 bg-black/30 rounded-xl px-4 py-3 text-white">
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+        <div className="flex items-center gap-1 shrink-0">
+          <Button variant="ghost" size="icon" onClick={onStepBack} disabled={position === 0} aria-label="Step back">
+            <StepBackIcon />
+          </Button>
+          {playing ? (
+            <Button variant="ghost" size="icon" onClick={onPause} aria-label="Pause">
+              <PauseIcon />
+            </Button>
+          ) : (
+            <Button variant="ghost" size="icon" onClick={onPlay} disabled={atEnd} aria-label="Play">
+              <PlayIcon />
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={onStepForward} disabled={atEnd} aria-label="Step forward">
+            <StepForwardIcon />
+          </Button>
+        </div>
+
+        <Slider
+          value={[position]}
+          min={0}
+          max={Math.max(1, notation.length)}
+          step={1}
+          disabled={notation.length === 0}
+          onValueChange={([value]) => onSeek(value)}
+          aria-label="Move"
+          className="flex-1"
+        />
+        <span className="font-mono text-sm text-white/60 w-16 text-right shrink-0">
+          {position}/{notation.length}
+        </span>
+
+        <label className="flex items-center gap-2 text-sm text-white/70 shrink-0">
+          Speed
+          <Slider
+            value={[speed]}
+            min={MIN_SPEED}
+            max={MAX_SPEED}
+            step={0.5}
+            onValueChange={([value]) => onSpeedChange(value)}
+            aria-label="Speed"
+            className="w-28"
+          />
+          <span className="font-mono w-12">{speed.toFixed(1)}/s</span>
+        </label>
+      </div>
+
+      <div className="font-mono text-sm flex flex-wrap gap-1 min-h-6">
+        {notation.length === 0 && (
+          <span className="text-white/40">Play an algorithm or a solution to step through it here</span>
+        )}
+        {notation.map((move, i) => (
+          <button
+            key={i}
+            type="button"
+            onClick={() => onSeek(i + 1)}
+            className={cn(
+              'rounded px-1 transition-colors hover:bg-white/10',
+              i === position - 1 ? 'bg-yellow-400 text-black hover:bg-yellow-300' : i >= position && 'text-white/50'
+            )}
+          >
+            {move}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,268 @@
+// @vitest-environment jsdom
+import React, { useRef, useState, useSyncExternalStore } from 'react'
+import { createRoot } from 'react-dom/client'
+import ReactThreeTestRenderer from '@react-three/test-renderer'
+import * as THREE from 'three'
+import { describe, expect, it, vi } from 'vitest'
+import { type AnimationSettings, DEFAULT_ANIMATION } from '@/lib/cube/animation'
+import { type CubeState, type Move, applyMove, applyMoves, createSolvedCube, cubesEqual } from '@/lib/cube/model'
+import { parseNotation, parseNotationSteps } from '@/lib/cube/notation'
+import { CUBIE_SPACING, RubiksCube, Scene } from './RubiksCube'
+
+// Orbit controls listen on the page and Text loads a font, neither of which
+// exists without a browser
+vi.mock('@react-three/drei', async importOriginal => ({
+  ...(await importOriginal<typeof import('@react-three/drei')>()),
+  OrbitControls: () => null,
+  Text: () => null,
+}))
+
+// Game's Canvas hands the scene to the test renderer instead of a WebGL
+// context, while the rest of the page renders into the DOM
+const canvas = vi.hoisted(() => ({ children: null as React.ReactNode, listeners: new Set<() => void>() }))
+vi.mock('@react-three/fiber', async importOriginal => {
+  const { useLayoutEffect } = await import('react')
+  return {
+    ...(await importOriginal<typeof import('@react-three/fiber')>()),
+    Canvas: ({ children }: { children: React.ReactNode }) => {
+      useLayoutEffect(() => {
+        canvas.children = children
+        canvas.listeners.forEach(listener => listener())
+      })
+      return null
+    },
+  }
+})
+
+function CanvasContents() {
+  const subscribe = (listener: () => void) => {
+    canvas.listeners.add(listener)
+    return () => canvas.listeners.delete(listener)
+  }
+  return <>{useSyncExternalStore(subscribe, () => canvas.children)}</>
+}
+
+type Harness = {
+  moveQueue: { current: Move[] }
+  // Cube as last rendered by the scene
+  cubeState: () => CubeState[]
+}
+
+// Wires the scene up the way Game does: finished moves go into the model right
+// away and reach the scene on the next render
+function mount(size: number, animation: AnimationSettings = DEFAULT_ANIMATION) {
+  const harness = {} as Harness
+  function Game() {
+    const model = useRef(createSolvedCube(size))
+    const [cubeState, setCubeState] = useState(model.current)
+    const moveQueue = useRef<Move[]>([])
+    harness.moveQueue = moveQueue
+    harness.cubeState = () => cubeState
+    return (
+      <Scene
+        cubeState={cubeState}
+        model={model}
+        size={size}
+        animation={animation}
+        moveQueue={moveQueue}
+        onQueueMove={move => moveQueue.current.push(move)}
+        onMoveFinished={move => {
+          model.current = applyMove(model.current, move)
+          setCubeState(model.current)
+        }}
+      />
+    )
+  }
+  return { harness, element: <Game /> }
+}
+
+type Renderer = Awaited<ReturnType<typeof ReactThreeTestRenderer.create>>
+
+// Frame stepping and the drawn cubies of a rendered scene
+function inspect(renderer: Renderer) {
+  // Runs frames one at a time, letting React render in between like a browser
+  const frames = async (count: number, delta = 1 / 60) => {
+    for (let i = 0; i < count; i++) {
+      await ReactThreeTestRenderer.act(async () => renderer.advanceFrames(1, delta))
+    }
+  }
+  // Instanced meshes of the cores and the stickers, in that order
+  const meshes = () =>
+    renderer.scene.children
+      .map(child => child.instance)
+      .filter((object): object is THREE.InstancedMesh => (object as THREE.InstancedMesh).isInstancedMesh)
+  // Transform of each cubie, read from the instanced mesh of cores
+  const cubies = () => {
+    const [cores] = meshes()
+    return Array.from({ length: cores.count }, (_, i) => {
+      const matrix = new THREE.Matrix4()
+      cores.getMatrixAt(i, matrix)
+      const transform = { position: new THREE.Vector3(), quaternion: new THREE.Quaternion() }
+      matrix.decompose(transform.position, transform.quaternion, new THREE.Vector3())
+      return transform
+    })
+  }
+  return { frames, cubies, meshes }
+}
+
+async function render(size: number, animation?: AnimationSettings) {
+  const { harness, element } = mount(size, animation)
+  const renderer = await ReactThreeTestRenderer.create(element)
+  return { renderer, harness, ...inspect(renderer) }
+}
+
+// Renders the whole game, with the page in the DOM and the scene in the test
+// renderer
+async function renderGame(props: React.ComponentProps<typeof RubiksCube> = {}) {
+  // Radix measures some controls, which jsdom can't lay out anyway
+  vi.stubGlobal('ResizeObserver', class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  })
+  vi.stubGlobal('IS_REACT_ACT_ENVIRONMENT', true)
+  const container = document.createElement('div')
+  document.body.appendChild(container)
+  const root = createRoot(container)
+  await ReactThreeTestRenderer.act(async () => root.render(<RubiksCube {...props} />))
+  const renderer = await ReactThreeTestRenderer.create(<CanvasContents />)
+  const button = (text: string) => [...container.querySelectorAll('button')].find(b => b.textContent === text)!
+  const click = (text: string) => ReactThreeTestRenderer.act(async () => button(text).click())
+  const unmount = async () => {
+    await renderer.unmount()
+    await ReactThreeTestRenderer.act(async () => root.unmount())
+    container.remove()
+    vi.unstubAllGlobals()
+  }
+  return { container, button, click, unmount, ...inspect(renderer) }
+}
+
+type Transform = { position: THREE.Vector3; quaternion: THREE.Quaternion }
+
+// Where a cubie of the model should be drawn
+function expectDrawnAt(group: Transform, cubie: CubeState, size: number) {
+  const offset = (size - 1) / 2
+  const expected = new THREE.Vector3(...cubie.position.map(v => (v - offset) * CUBIE_SPACING))
+  expect(group.position.distanceTo(expected)).toBeLessThan(1e-6)
+  const [x, y, z] = cubie.orientation.map(v => new THREE.Vector3(...v))
+  const quaternion = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(x, y, z))
+  expect(Math.abs(group.quaternion.dot(quaternion))).toBeCloseTo(1, 6)
+}
+
+describe('Scene', () => {
+  it.each(['2x2', '3x3', '4x4'])('draws every cubie of a %s at its place', async name => {
+    const size = parseInt(name)
+    const { harness, cubies, renderer } = await render(size)
+    const state = harness.cubeState()
+    expect(cubies()).toHaveLength(state.length)
+    cubies().forEach((group, i) => expectDrawnAt(group, state[i], size))
+    await renderer.unmount()
+  })
+
+  it('colors one sticker instance per sticker', async () => {
+    const { meshes, renderer } = await render(3)
+    const [, stickers] = meshes()
+    expect(stickers.count).toBe(54)
+    const counts = new Map<string, number>()
+    const color = new THREE.Color()
+    for (let i = 0; i < stickers.count; i++) {
+      stickers.getColorAt(i, color)
+      const hex = color.getHexString()
+      counts.set(hex, (counts.get(hex) ?? 0) + 1)
+    }
+    expect([...counts.values()]).toEqual([9, 9, 9, 9, 9, 9])
+    await renderer.unmount()
+  })
+
+  it('animates a queued turn and then applies it to the cube', async () => {
+    const { harness, frames, cubies, renderer } = await render(3)
+    const solved = harness.cubeState()
+    const [move] = parseNotation('R')
+    harness.moveQueue.current.push(move)
+
+    // Halfway through only the R layer has moved, and the cube is unchanged
+    await frames(1 + Math.round(DEFAULT_ANIMATION.duration / 2 / (1000 / 60)))
+    expect(harness.cubeState()).toBe(solved)
+    cubies().forEach((group, i) => {
+      if (solved[i].position[0] === 2) expect(Math.abs(group.quaternion.w)).toBeLessThan(0.9999)
+      else expectDrawnAt(group, solved[i], 3)
+    })
+
+    await frames(30)
+    const turned = applyMove(solved, move)
+    expect(cubesEqual(harness.cubeState(), turned)).toBe(true)
+    expect(harness.moveQueue.current).toHaveLength(0)
+    cubies().forEach((group, i) => expectDrawnAt(group, turned[i], 3))
+    await renderer.unmount()
+  })
+
+  it('plays queued moves one after another', async () => {
+    const { harness, frames, cubies, renderer } = await render(3)
+    const moves = parseNotation("R U R' U' x")
+    harness.moveQueue.current.push(...moves)
+    await frames(moves.length * 30)
+    const expected = applyMoves(createSolvedCube(3), moves)
+    expect(cubesEqual(harness.cubeState(), expected)).toBe(true)
+    cubies().forEach((group, i) => expectDrawnAt(group, expected[i], 3))
+    await renderer.unmount()
+  })
+
+  it('applies the whole queue in one frame in instant mode', async () => {
+    const { harness, frames, cubies, renderer } = await render(4, { ...DEFAULT_ANIMATION, instant: true })
+    const moves = parseNotation("Rw U2 3F' y", 4)
+    harness.moveQueue.current.push(...moves)
+    await frames(1)
+    const expected = applyMoves(createSolvedCube(4), moves)
+    expect(cubesEqual(harness.cubeState(), expected)).toBe(true)
+    cubies().forEach((group, i) => expectDrawnAt(group, expected[i], 4))
+    await renderer.unmount()
+  })
+})
+
+describe('RubiksCube', () => {
+  it('turns the drawn cube when a move button is clicked', async () => {
+    const { button, click, unmount, frames, cubies } = await renderGame()
+    const solved = createSolvedCube(3)
+    cubies().forEach((group, i) => expectDrawnAt(group, solved[i], 3))
+    expect(button('Undo').disabled).toBe(true)
+
+    await click('R')
+    await frames(40)
+    const turned = applyMoves(solved, parseNotation('R'))
+    cubies().forEach((group, i) => expectDrawnAt(group, turned[i], 3))
+    expect(button('Undo').disabled).toBe(false)
+
+    await click('Undo')
+    await frames(40)
+    cubies().forEach((group, i) => expectDrawnAt(group, solved[i], 3))
+    await unmount()
+  })
+
+  it('locks everything that would replace the cube while painting', async () => {
+    const { button, click, unmount } = await renderGame()
+    const locked = ['R', 'Scramble', 'Reset', 'Photos', 'Import', '5x5']
+    locked.forEach(text => expect(button(text).disabled).toBe(false))
+    await click('Paint')
+    locked.forEach(text => expect(button(text).disabled).toBe(true))
+    await click('Cancel')
+    locked.forEach(text => expect(button(text).disabled).toBe(false))
+    await unmount()
+  })
+
+  it.each([
+    { alg: "(R U R' U')6 R", solved: 0 },
+    { alg: "(R U R' U')6 R R'", solved: 1 },
+  ])('counts $alg as solved $solved times when played', async ({ alg, solved }) => {
+    const onSolved = vi.fn()
+    const { container, unmount, frames } = await renderGame({
+      initialCase: { size: 3, scramble: '', alg, autoplay: true },
+      onSolved,
+    })
+    // A whole second per frame finishes every turn in one frame. Both pass
+    // through the solved cube after 24 turns.
+    await frames(parseNotationSteps(alg).length * 4, 1)
+    expect(onSolved).toHaveBeenCalledTimes(solved)
+    expect(container.textContent?.includes('Solved!')).toBe(solved === 1)
+    await unmount()
+  })
+})
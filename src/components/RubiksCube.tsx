@@ -1,9 +1,47 @@
 'use client'
 
-import React, { useRef, useState, useMemo, useEffect, forwardRef, useImperativeHandle } from 'react'
-import { Canvas, useFrame, useThree } from '@react-three/fiber'
-import { OrbitControls, RoundedBox, Text } from '@react-three/drei'
+import React, { useRef, useState, useMemo, useCallback, useEffect, useLayoutEffect, forwardRef, useImperativeHandle } from 'react'
+import { Canvas, type ThreeEvent, useFrame, useThree } from '@react-three/fiber'
+import { OrbitControls, RoundedBoxGeometry, Text } from '@react-three/drei'
 import * as THREE from 'three'
+import {
+  type Axis,
+  type CubeState,
+  type Move,
+  ALL_LAYERS,
+  MAX_SIZE,
+  MIN_SIZE,
+  applyMove,
+  applyMoves,
+  createSolvedCube,
+  isInLayer,
+  isSolved,
+} from '@/lib/cube/model'
+import { dragAxes, dragMove, faceNormal } from '@/lib/cube/drag'
+import { type Face, cubeToFacelets, faceletIndexAt, faceletsToCube, faceletsToStickers } from '@/lib/cube/facelets'
+import { type NotationStep, NotationError, parseNotation, parseNotationSteps } from '@/lib/cube/notation'
+import { AlgorithmInput } from '@/components/AlgorithmInput'
+import { BeginnerSolverPanel } from '@/components/BeginnerSolverPanel'
+import { AnimationSettingsDialog } from '@/components/AnimationSettingsDialog'
+import { FaceletDialog } from '@/components/FaceletDialog'
+import { PaintPanel } from '@/components/PaintPanel'
+import { PhotoImportDialog } from '@/components/PhotoImportDialog'
+import { KeyMapSettingsDialog } from '@/components/KeyMapSettingsDialog'
+import { MoveButtons } from '@/components/MoveButtons'
+import { PlaybackBar } from '@/components/PlaybackBar'
+import { ScrambleBar } from '@/components/ScrambleBar'
+import { TimerPanel } from '@/components/TimerPanel'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { useSolver } from '@/hooks/use-solver'
+import { useMoveHistory } from '@/hooks/use-move-history'
+import { useKeyMap } from '@/hooks/use-keymap'
+import { useSolveTimer } from '@/hooks/use-solve-timer'
+import { usePlayback } from '@/hooks/use-playback'
+import { useAnimationSettings } from '@/hooks/use-animation-settings'
+import { moveForKey } from '@/lib/cube/keymap'
+import { type AnimationSettings, easingFunction } from '@/lib/cube/animation'
+import { SCRAMBLE_LENGTHS, createRandom, randomMoveScramble, randomSeed } from '@/lib/cube/scramble'
+import { type SharedCase, DEFAULT_SIZE } from '@/lib/cube/share'
 
 // Colors based on standard Rubik's cube
 const COLORS = {
@@ -25,122 +63,214 @@ const ID_TO_COLOR: Record<string, string> = {
   '5': COLORS.B,
 }
 
-type CubieProps = {
-  position: [number, number, number]
-  quaternion?: THREE.Quaternion
-  colors: (string | null)[]
-  id: number
-  onPointerDown?: (e: any) => void
-  onPointerMove?: (e: any) => void
-  onPointerUp?: (e: any) => void
+// Distance between neighbouring cubie centers in world units
+export const CUBIE_SPACING = 1.05
+
+// Whole-cube rotations are free during inspection, so only layer turns start
+// the solve timer
+const turnsLayers = (moves: Move[]) => moves.some(move => move.layer !== ALL_LAYERS)
+
+const STICKER_SIZE = 0.88
+const STICKER_OFFSET = 0.51
+
+// Placement of the sticker in each slot (see model.ts) relative to its cubie
+const STICKER_MATRICES = ([
+  [[STICKER_OFFSET, 0, 0], [0, Math.PI / 2, 0]],
+  [[-STICKER_OFFSET, 0, 0], [0, -Math.PI / 2, 0]],
+  [[0, STICKER_OFFSET, 0], [-Math.PI / 2, 0, 0]],
+  [[0, -STICKER_OFFSET, 0], [Math.PI / 2, 0, 0]],
+  [[0, 0, STICKER_OFFSET], [0, 0, 0]],
+  [[0, 0, -STICKER_OFFSET], [0, Math.PI, 0]],
+] as const).map(([position, rotation]) =>
+  new THREE.Matrix4().compose(
+    new THREE.Vector3(...position),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...rotation)),
+    new THREE.Vector3(1, 1, 1)
+  )
+)
+
+// Face normal of a pointer event on an instanced mesh, in world space
+function instanceNormal(e: ThreeEvent<PointerEvent>): THREE.Vector3 {
+  const mesh = e.object as THREE.InstancedMesh
+  const matrix = new THREE.Matrix4()
+  mesh.getMatrixAt(e.instanceId!, matrix)
+  return e.face!.normal.clone().transformDirection(matrix.premultiply(mesh.matrixWorld))
 }
 
-const Cubie = forwardRef<THREE.Group, CubieProps>(({ position, colors, id, onPointerDown, onPointerMove, onPointerUp, quaternion }, ref) => {
-  const localRef = useRef<THREE.Group>(null)
-  useImperativeHandle(ref, () => localRef.current!)
-  const [hovered, setHovered] = useState(false)
-  
-  // Use a default quaternion if none provided, but we expect one passed from parent
-  const defaultQuaternion = useMemo(() => new THREE.Quaternion(), [])
+type CubiesHandle = {
+  // Turns the selected cubies by `angle` about a world axis through the
+  // center of the cube
+  rotate: (select: (index: number) => boolean, axis: THREE.Vector3, angle: number) => void
+}
 
-  // Map index to face color based on sticker ID
-  const faceColors = colors.map(c => c ? ID_TO_COLOR[c] : null)
-  
-  const stickerSize = 0.88
-  const stickerOffset = 0.51
+type CubiesProps = {
+  cubeState: CubeState[]
+  size: number
+  onPointerDown?: (e: ThreeEvent<PointerEvent>, index: number, normal: THREE.Vector3) => void
+  // Clicks on a sticker, by cubie and slot (see model.ts)
+  onStickerClick?: (index: number, slot: number) => void
+}
+
+// Draws all cubies with two instanced meshes, one for the plastic cores and
+// one for the stickers, so the whole cube takes a couple of draw calls
+// whatever its size
+const Cubies = forwardRef<CubiesHandle, CubiesProps>(({ cubeState, size, onPointerDown, onStickerClick }, ref) => {
+  const cores = useRef<THREE.InstancedMesh>(null)
+  const stickerMesh = useRef<THREE.InstancedMesh>(null)
+  const logo = useRef<THREE.Group>(null)
+  // Current transform of each cubie, turned in place while a move animates
+  const transforms = useRef<THREE.Object3D[]>([])
+  // Cubies the transforms were last set from
+  const synced = useRef<CubeState[]>([])
+
+  // Every visible sticker, by the cubie and slot it belongs to
+  const stickers = useMemo(
+    () => cubeState.flatMap((cubie, index) =>
+      cubie.colors.flatMap((color, slot) => (color ? [{ index, slot, color }] : []))
+    ),
+    [cubeState]
+  )
+
+  // The logo goes on the white center, which on big cubes means the one in
+  // the middle of its face
+  const offset = (size - 1) / 2
+  const logoSticker = stickers.find(({ index, color }) =>
+    color === '2' &&
+    cubeState[index].colors.filter(c => c).length === 1 &&
+    cubeState[index].position.filter(v => v === offset).length === 2
+  )
+
+  const writeMatrices = () => {
+    const matrix = new THREE.Matrix4()
+    transforms.current.forEach((t, i) => cores.current!.setMatrixAt(i, t.matrix))
+    stickers.forEach(({ index, slot }, i) => {
+      stickerMesh.current!.setMatrixAt(i, matrix.multiplyMatrices(transforms.current[index].matrix, STICKER_MATRICES[slot]))
+    })
+    for (const mesh of [cores.current!, stickerMesh.current!]) {
+      mesh.instanceMatrix.needsUpdate = true
+      // Recomputed on the next raycast or culling check
+      mesh.boundingSphere = null
+    }
+    if (logo.current && logoSticker) {
+      logo.current.matrix.multiplyMatrices(transforms.current[logoSticker.index].matrix, STICKER_MATRICES[logoSticker.slot])
+      logo.current.matrixWorldNeedsUpdate = true
+    }
+  }
+
+  useImperativeHandle(ref, () => ({
+    rotate: (select, axis, angle) => {
+      transforms.current.forEach((t, i) => {
+        if (!select(i)) return
+        t.position.applyAxisAngle(axis, angle)
+        t.rotateOnWorldAxis(axis, angle)
+        t.updateMatrix()
+      })
+      writeMatrices()
+    },
+  }))
+
+  // Runs after every render, so the instances always show the current props
+  useLayoutEffect(() => {
+    transforms.current = cubeState.map((cubie, i) => {
+      // Cubies left alone by a move keep their transform, so re-renders in the
+      // middle of a turn don't disturb the animation, and the first render
+      // after it snaps the turned cubies to their new places
+      const kept = transforms.current[i]
+      if (kept && synced.current[i] === cubie) return kept
+      const t = kept ?? new THREE.Object3D()
+      t.position.set(...(cubie.position.map(v => (v - offset) * CUBIE_SPACING) as [number, number, number]))
+      const [xAxis, yAxis, zAxis] = cubie.orientation.map(v => new THREE.Vector3(...v))
+      t.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(xAxis, yAxis, zAxis))
+      t.updateMatrix()
+      return t
+    })
+    synced.current = cubeState
+
+    const color = new THREE.Color()
+    stickers.forEach((sticker, i) => stickerMesh.current!.setColorAt(i, color.set(ID_TO_COLOR[sticker.color])))
+    stickerMesh.current!.instanceColor!.needsUpdate = true
+    writeMatrices()
+  })
+
+  // Clicks that end a drag of the view don't count
+  const handleStickerClick = onStickerClick && ((e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > 2) return
+    e.stopPropagation()
+    const { index, slot } = stickers[e.instanceId!]
+    onStickerClick(index, slot)
+  })
 
   return (
-    <group
-      ref={localRef}
-      position={position}
-      quaternion={quaternion || defaultQuaternion}
-      onPointerDown={onPointerDown}
-      onPointerMove={onPointerMove}
-      onPointerUp={onPointerUp}
-      onPointerOver={(e) => { e.stopPropagation(); setHovered(true) }}
-      onPointerOut={(e) => { e.stopPropagation(); setHovered(false) }}
-    >
-      {/* Black plastic core */}
-      <RoundedBox args={[1, 1, 1]} radius={0.1} smoothness={4}>
+    <>
+      {/* Black plastic cores */}
+      <instancedMesh
+        key={`cores-${cubeState.length}`}
+        ref={cores}
+        args={[undefined, undefined, cubeState.length]}
+        onPointerDown={onPointerDown && (e => onPointerDown(e, e.instanceId!, instanceNormal(e)))}
+      >
+        <RoundedBoxGeometry args={[1, 1, 1]} radius={0.1} smoothness={4} />
         <meshStandardMaterial color={COLORS.CORE} roughness={0.6} metalness={0.1} />
-      </RoundedBox>
-
-      {/* Stickers */}
-      {faceColors.map((color, i) => {
-        if (!color) return null
-        
-        const pos: [number, number, number] = [0, 0, 0]
-        const rot: [number, number, number] = [0, 0, 0]
-        
-        if (i === 0) { pos[0] = stickerOffset; rot[1] = Math.PI / 2 }
-        else if (i === 1) { pos[0] = -stickerOffset; rot[1] = -Math.PI / 2 }
-        else if (i === 2) { pos[1] = stickerOffset; rot[0] = -Math.PI / 2 }
-        else if (i === 3) { pos[1] = -stickerOffset; rot[0] = Math.PI / 2 }
-        else if (i === 4) { pos[2] = stickerOffset; }
-        else if (i === 5) { pos[2] = -stickerOffset; rot[1] = Math.PI }
-
-        // Check for center logo condition:
-        // 1. Color is White (COLORS.U)
-        // 2. This cubie only has ONE sticker (it is a center piece)
-        const isCenterPiece = colors.filter(c => c).length === 1
-
-        return (
-          <group key={i} position={pos} rotation={rot}>
-             <RoundedBox args={[stickerSize, stickerSize, 0.02]} radius={0.05} smoothness={4}>
-                <meshStandardMaterial color={color} roughness={0.2} metalness={0.0} polygonOffset polygonOffsetFactor={-1} />
-             </RoundedBox>
-             {/* Logo on White Center */}
-             {color === COLORS.U && isCenterPiece && (
-                <Text
-                  position={[0, 0, 0.03]}
-                  fontSize={0.25}
-                  color="black"
-                  anchorX="center"
-                  anchorY="middle"
-                  rotation={[0, 0, 0]}
-                >
-                  RUBIKS{'\n'}CUBE
-                </Text>
-             )}
-          </group>
-        )
-      })}
-    </group>
+      </instancedMesh>
+
+      {/* Stickers, white in the material and tinted per instance */}
+      <instancedMesh
+        key={`stickers-${stickers.length}`}
+        ref={stickerMesh}
+        args={[undefined, undefined, stickers.length]}
+        onPointerDown={onPointerDown && (e => onPointerDown(e, stickers[e.instanceId!].index, instanceNormal(e)))}
+        onClick={handleStickerClick}
+      >
+        <RoundedBoxGeometry args={[STICKER_SIZE, STICKER_SIZE, 0.02]} radius={0.05} smoothness={4} />
+        <meshStandardMaterial roughness={0.2} metalness={0.0} polygonOffset polygonOffsetFactor={-1} />
+      </instancedMesh>
+
+      {/* Logo on the white center */}
+      {logoSticker && (
+        <group ref={logo} matrixAutoUpdate={false}>
+          <Text
+            position={[0, 0, 0.03]}
+            fontSize={0.25}
+            color="black"
+            anchorX="center"
+            anchorY="middle"
+          >
+            RUBIKS{'\n'}CUBE
+          </Text>
+        </group>
+      )}
+    </>
   )
 })
-Cubie.displayName = 'Cubie'
-
-type CubeState = {
-  position: [number, number, number]
-  colors: (string | null)[]
-}
 
-type Move = {
-  axis: 'x' | 'y' | 'z'
-  layer: number
-  dir: 1 | -1
-}
+Cubies.displayName = 'Cubies'
 
 type SceneProps = {
+  // The cube as last rendered
   cubeState: CubeState[]
-  setCubeState: React.Dispatch<React.SetStateAction<CubeState[]>>
+  // The cube with every finished move applied. It is updated synchronously,
+  // so it runs ahead of `cubeState` until React re-renders.
+  model: React.MutableRefObject<CubeState[]>
+  size: number
+  animation: AnimationSettings
   moveQueue: React.MutableRefObject<Move[]>
+  onQueueMove: (move: Move) => void
+  onMoveFinished: (move: Move) => void
+  // Called on every frame with nothing left to animate
+  onIdle?: () => void
+  // Set while painting stickers, which then replaces drag turns
+  onPaintSticker?: (index: number, slot: number) => void
 }
 
-function Scene({ cubeState, setCubeState, moveQueue }: SceneProps) {
+export function Scene({ cubeState, model, size, animation, moveQueue, onQueueMove, onMoveFinished, onIdle, onPaintSticker }: SceneProps) {
   const { camera, gl } = useThree()
-  const cubieRefs = useRef<(THREE.Group | null)[]>([])
+  const cubies = useRef<CubiesHandle>(null)
   const isAnimating = useRef(false)
   const animationProgress = useRef(0)
   const currentMove = useRef<Move | null>(null)
   const prevAngle = useRef(0)
   const orbitControlsRef = useRef<any>(null)
   
-  // Create a new identity quaternion every render to force prop updates on Cubies
-  // This ensures that after an animation (where the THREE object was manually rotated),
-  // the rotation is strictly reset to 0 when the React state updates.
-  const identityQuaternion = new THREE.Quaternion()
-  
   // Interaction refs
   const interactionRef = useRef({
     active: false,
@@ -154,20 +284,22 @@ function Scene({ cubeState, setCubeState, moveQueue }: SceneProps) {
     // console.log('Cube State Updated', cubeState[0].position, cubeState[0].colors)
   }, [cubeState])
 
+  // Keep the whole cube in view by scaling the camera distance used for a 3x3
+  useEffect(() => {
+    camera.position.setLength(Math.sqrt(75) * size / 3)
+  }, [camera, size])
+
   // Animation Loop
   useFrame((state, delta) => {
     // Handle Animation
     if (isAnimating.current && currentMove.current) {
-      const speed = 4.0 // Animation speed
-      animationProgress.current += delta * speed
+      animationProgress.current += (delta * 1000) / animation.duration
       
       if (animationProgress.current >= 1) {
         animationProgress.current = 1
       }
 
-      // Easing - EaseInOutCubic for smoothness
-      const t = animationProgress.current
-      const easedT = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+      const easedT = easingFunction(animation.easing)(animationProgress.current)
       const currentAngle = easedT * (Math.PI / 2) * currentMove.current.dir
       
       const deltaAngle = currentAngle - prevAngle.current
@@ -180,16 +312,8 @@ function Scene({ cubeState, setCubeState, moveQueue }: SceneProps) {
         axis === 'z' ? 1 : 0
       )
 
-      cubieRefs.current.forEach((ref, i) => {
-        if (!ref) return
-        const logicalPos = cubeState[i].position
-        // Check if cubie is in the moving layer
-        const layerCoord = logicalPos[axis === 'x' ? 0 : axis === 'y' ? 1 : 2]
-        if (Math.abs(layerCoord - layer * 1.05) < 0.1) {
-           ref.position.applyAxisAngle(axisVec, deltaAngle)
-           ref.rotateOnWorldAxis(axisVec, deltaAngle)
-        }
-      })
+      // Only the cubies in the moving layer turn
+      cubies.current?.rotate(i => isInLayer(model.current[i], axis, layer), axisVec, deltaAngle)
 
       prevAngle.current = currentAngle
 
@@ -199,107 +323,34 @@ function Scene({ cubeState, setCubeState, moveQueue }: SceneProps) {
         finishMove(currentMove.current)
         currentMove.current = null
       }
-    } else if (moveQueue.current.length > 0) {
-      // Start Next Move
+    } else if (moveQueue.current.length > 0 && animation.instant) {
+      // Apply everything queued at once, with nothing to animate
+      while (moveQueue.current.length > 0) finishMove(moveQueue.current.shift()!)
+    } else if (moveQueue.current.length > 0 && cubeState === model.current) {
+      // Start Next Move, once the cubies show the finished ones. Until then
+      // the rotated THREE objects would be reset halfway through the turn.
       const nextMove = moveQueue.current.shift()!
       currentMove.current = nextMove
       isAnimating.current = true
       animationProgress.current = 0
       prevAngle.current = 0
+    } else if (moveQueue.current.length === 0) {
+      onIdle?.()
     }
   })
 
+  // The model takes the move right away; Cubies then re-syncs the turned
+  // instances from it on the next render, replacing the animated rotation
   const finishMove = (move: Move) => {
-    const { axis, layer, dir } = move
-    
-    // Update Logical State
-    // We do NOT manually reset the THREE objects here anymore.
-    // We rely on React to re-render the Scene with the new cubeState.
-    // Since we pass a fresh identityQuaternion to Cubie, Three-fiber will reset the rotation to 0.
-    // The visual transition from "Rotated State" to "New Position + 0 Rotation" should be seamless.
-    
-    setCubeState(prev => {
-      const newState = prev.map(c => ({ 
-          ...c,
-          position: [...c.position] as [number, number, number],
-          colors: [...c.colors]
-      }))
-      
-      const indicesToRotate = newState.map((c, i) => i).filter(i => {
-         const pos = newState[i].position
-         return Math.abs(pos[axis === 'x' ? 0 : axis === 'y' ? 1 : 2] - layer * 1.05) < 0.1
-      })
-
-      // console.log(`Finishing move: ${axis} ${layer} ${dir}. Rotating ${indicesToRotate.length} cubies.`)
-
-      indicesToRotate.forEach(i => {
-        const cube = newState[i]
-        const [x, y, z] = cube.position
-        
-        let newPos: [number, number, number] = [...cube.position]
-        
-        if (axis === 'x') {
-           if (dir === 1) {
-             newPos = [x, -z, y]
-             const [c0, c1, c2, c3, c4, c5] = cube.colors
-             cube.colors = [c0, c1, c5, c4, c2, c3]
-           } else {
-             newPos = [x, z, -y]
-             const [c0, c1, c2, c3, c4, c5] = cube.colors
-             cube.colors = [c0, c1, c4, c5, c3, c2]
-           }
-        } else if (axis === 'y') {
-           if (dir === 1) {
-             newPos = [z, y, -x]
-             const [c0, c1, c2, c3, c4, c5] = cube.colors
-             cube.colors = [c4, c5, c2, c3, c1, c0] 
-           } else {
-             newPos = [-z, y, x]
-             const [c0, c1, c2, c3, c4, c5] = cube.colors
-             cube.colors = [c5, c4, c2, c3, c0, c1]
-           }
-        } else {
-           if (dir === 1) {
-             newPos = [-y, x, z]
-             const [c0, c1, c2, c3, c4, c5] = cube.colors
-             cube.colors = [c3, c2, c0, c1, c4, c5]
-           } else {
-             newPos = [y, -x, z]
-             const [c0, c1, c2, c3, c4, c5] = cube.colors
-             cube.colors = [c2, c3, c1, c0, c4, c5]
-           }
-        }
-        
-        // Check for NaN positions
-        if (isNaN(newPos[0]) || isNaN(newPos[1]) || isNaN(newPos[2])) {
-            console.error('NaN position detected!', cube.position, newPos)
-        }
-
-        cube.position = [
-          Math.round(newPos[0] * 100) / 100,
-          Math.round(newPos[1] * 100) / 100,
-          Math.round(newPos[2] * 100) / 100
-        ]
-      })
-
-      return newState
-    })
-  }
-
-  const queueMove = (axis: 'x' | 'y' | 'z', layer: number, dir: 1 | -1) => {
-    moveQueue.current.push({ axis, layer, dir })
+    onMoveFinished(move)
   }
 
   // Interaction Handlers
-  const handlePointerDown = (e: any, index: number) => {
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>, index: number, normal: THREE.Vector3) => {
     e.stopPropagation()
     // Disable controls only if we hit a cube
     if (orbitControlsRef.current) orbitControlsRef.current.enabled = false
     
-    // Get World Normal
-    const normal = e.face.normal.clone()
-    normal.transformDirection(e.object.matrixWorld)
-    
     const startPoint = e.point.clone()
     
     // Store initial state for the drag
@@ -329,21 +380,16 @@ function Scene({ cubeState, setCubeState, moveQueue }: SceneProps) {
 
         // Threshold for move detection (NDC space)
         if (dist > 0.05) {
-          const normal = interactionRef.current.normal
-          const absNormal = new THREE.Vector3(Math.abs(normal.x), Math.abs(normal.y), Math.abs(normal.z))
-          
-          let moveAxis: 'x' | 'y' | 'z' | null = null
-          let moveDir: 1 | -1 = 1
-          let layer = 0
+          const normal = faceNormal(interactionRef.current.normal.toArray())
           
           // Re-access state
           const index = interactionRef.current.intersectedCubieIndex
-          const cube = cubeState[index]
+          const cube = model.current[index]
           
           // Helper to determine axis dominance in screen space
           const checkAxes = (
-            axis1: THREE.Vector3, axis1Name: 'x' | 'y' | 'z', 
-            axis2: THREE.Vector3, axis2Name: 'x' | 'y' | 'z'
+            axis1: THREE.Vector3, axis1Name: Axis, 
+            axis2: THREE.Vector3, axis2Name: Axis
           ) => {
              // Project World Axes to Screen Space
              const p1 = interactionRef.current.startPoint.clone().add(axis1).project(camera)
@@ -361,80 +407,12 @@ function Scene({ cubeState, setCubeState, moveQueue }: SceneProps) {
              }
           }
           
-          if (absNormal.x > 0.8) { 
-             // Right/Left Face
-             // Tangents: Y (0,1,0) and Z (0,0,1)
-             const result = checkAxes(new THREE.Vector3(0,1,0), 'y', new THREE.Vector3(0,0,1), 'z')
-             
-             if (result.axis === 'y') {
-                // Dragging along World Y -> Rotate X (Face Rotation)
-                moveAxis = 'x'
-                layer = Math.round(cube.position[0] / 1.05)
-                
-                const zSign = Math.sign(interactionRef.current.startPoint.z) || 1
-                const dragDir = Math.sign(result.dot)
-                moveDir = (dragDir === 1 ? -1 : 1) * zSign as 1 | -1
-             } else {
-                // Dragging along World Z -> Rotate Y (Slice Rotation)
-                moveAxis = 'y'
-                layer = Math.round(cube.position[1] / 1.05)
-                
-                const sign = Math.sign(normal.x)
-                const dragDir = Math.sign(result.dot)
-                moveDir = (dragDir === 1 ? -1 : 1) * sign as 1 | -1
-             }
-             
-          } else if (absNormal.y > 0.8) {
-             // Top/Bottom Face
-             // Tangents: X (1,0,0) and Z (0,0,1)
-             const result = checkAxes(new THREE.Vector3(1,0,0), 'x', new THREE.Vector3(0,0,1), 'z')
-             
-             if (result.axis === 'x') {
-                // Dragging along World X -> Rotate Z
-                moveAxis = 'z'
-                layer = Math.round(cube.position[2] / 1.05)
-                
-                const sign = Math.sign(normal.y)
-                const dragDir = Math.sign(result.dot)
-                moveDir = (dragDir === 1 ? -1 : 1) * sign as 1 | -1
-             } else {
-                // Dragging along World Z -> Rotate X
-                moveAxis = 'x'
-                layer = Math.round(cube.position[0] / 1.05)
-                
-                const sign = Math.sign(normal.y)
-                const dragDir = Math.sign(result.dot)
-                moveDir = (dragDir === 1 ? 1 : -1) * sign as 1 | -1
-             }
-
-          } else {
-             // Front/Back Face
-             // Tangents: X (1,0,0) and Y (0,1,0)
-             const result = checkAxes(new THREE.Vector3(1,0,0), 'x', new THREE.Vector3(0,1,0), 'y')
-             
-             if (result.axis === 'x') {
-                // Dragging along World X -> Rotate Y
-                moveAxis = 'y'
-                layer = Math.round(cube.position[1] / 1.05)
-                
-                const sign = Math.sign(normal.z)
-                const dragDir = Math.sign(result.dot)
-                moveDir = (dragDir === 1 ? 1 : -1) * sign as 1 | -1
-             } else {
-                // Dragging along World Y -> Rotate X
-                moveAxis = 'x'
-                layer = Math.round(cube.position[0] / 1.05)
-                
-                const sign = Math.sign(normal.z)
-                const dragDir = Math.sign(result.dot)
-                moveDir = (dragDir === 1 ? -1 : 1) * sign as 1 | -1
-             }
-          }
-
-          if (moveAxis) {
-              console.log('Queueing move:', moveAxis, layer, moveDir)
-              queueMove(moveAxis, layer, moveDir)
-          }
+          // The sticker can be pushed along either axis of its face; the one
+          // closest to the drag on screen wins
+          const [axis1, axis2] = dragAxes(normal)
+          const unit = (axis: Axis) => new THREE.Vector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0)
+          const result = checkAxes(unit(axis1), axis1, unit(axis2), axis2)
+          onQueueMove(dragMove(cube, normal, result.axis, result.dot < 0 ? -1 : 1))
           
           // Finish interaction
           cleanup()
@@ -462,25 +440,19 @@ function Scene({ cubeState, setCubeState, moveQueue }: SceneProps) {
       <directionalLight position={[10, 10, 5]} intensity={1.2} />
       <directionalLight position={[-10, -10, -5]} intensity={0.5} />
       
-      <group>
-         {cubeState.map((cube, i) => (
-            <Cubie
-              key={i}
-              id={i}
-              ref={el => { cubieRefs.current[i] = el }}
-              position={cube.position}
-              colors={cube.colors}
-              onPointerDown={(e) => handlePointerDown(e, i)}
-              quaternion={identityQuaternion}
-            />
-         ))}
-      </group>
+      <Cubies
+        ref={cubies}
+        cubeState={cubeState}
+        size={size}
+        onPointerDown={onPaintSticker ? undefined : handlePointerDown}
+        onStickerClick={onPaintSticker}
+      />
       
       <OrbitControls
         ref={orbitControlsRef}
         enablePan={false}
-        minDistance={4}
-        maxDistance={12}
+        minDistance={4 * size / 3}
+        maxDistance={12 * size / 3}
         enableDamping
         dampingFactor={0.05}
       />
@@ -488,106 +460,451 @@ function Scene({ cubeState, setCubeState, moveQueue }: SceneProps) {
   )
 }
 
-function Game() {
+type GameProps = {
+  // Case to start from, e.g. one read from a shared link
+  initialCase?: SharedCase
+  // Called whenever the size, scramble or algorithm changes
+  onCaseChange?: (shared: SharedCase) => void
+  // Called when a completed move leaves the cube solved
+  onSolved?: () => void
+}
+
+// Starting cube for a case. A scramble or algorithm that doesn't parse is
+// skipped and reported instead.
+function loadCase({ size, scramble, alg, autoplay }: NonNullable<GameProps['initialCase']>) {
+  let error: string | null = null
+  const parse = (notation: string, what: string): NotationStep[] | null => {
+    try {
+      return parseNotationSteps(notation, size)
+    } catch (e) {
+      if (!(e instanceof NotationError)) throw e
+      error ??= `Could not load the shared ${what}: ${e.message}`
+      return null
+    }
+  }
+  const scrambleSteps = scramble ? parse(scramble, 'scramble') : null
+  const autoplaySteps = autoplay && alg ? parse(alg, 'algorithm') : null
+  return {
+    cube: applyMoves(createSolvedCube(size), scrambleSteps?.flatMap(step => step.moves) ?? []),
+    scramble: scrambleSteps ? { seed: null, moves: scrambleSteps.map(step => step.notation) } : null,
+    autoplaySteps: autoplaySteps ?? [],
+    error,
+  }
+}
+
+function Game({ initialCase, onCaseChange, onSolved }: GameProps) {
+  const [initial] = useState(() =>
+    loadCase(initialCase ?? { size: DEFAULT_SIZE, scramble: '', alg: '', autoplay: false })
+  )
+  // Kept from the link so the mirrored URL still autoplays when shared again
+  const [autoplay] = useState(initialCase?.autoplay ?? false)
   const [resetKey, setResetKey] = useState(0) // Key to force Scene remount
-  const [cubeState, setCubeState] = useState<CubeState[]>(() => {
-    const initialState: CubeState[] = []
-    for (let x = -1; x <= 1; x++) {
-      for (let y = -1; y <= 1; y++) {
-        for (let z = -1; z <= 1; z++) {
-          const colors: (string | null)[] = [
-            x === 1 ? '0' : null,
-            x === -1 ? '1' : null,
-            y === 1 ? '2' : null,
-            y === -1 ? '3' : null,
-            z === 1 ? '4' : null,
-            z === -1 ? '5' : null,
-          ]
-          initialState.push({ position: [x * 1.05, y * 1.05, z * 1.05], colors })
-        }
+  const [size, setSize] = useState(initialCase?.size ?? DEFAULT_SIZE)
+  const [cubeState, setCubeState] = useState<CubeState[]>(initial.cube)
+  // Source of truth for the cube, see Scene
+  const model = useRef(initial.cube)
+  const [showSolved, setShowSolved] = useState(false)
+  const [solverError, setSolverError] = useState<string | null>(null)
+  const [scrambleError, setScrambleError] = useState<string | null>(null)
+  const [linkError, setLinkError] = useState<string | null>(initial.error)
+  const { solve: solveFacelets, scramble: generateScramble } = useSolver()
+  const [busy, setBusy] = useState<'solve' | 'scramble' | null>(null)
+  const [seed, setSeed] = useState('')
+  const [currentScramble, setCurrentScramble] = useState<{ seed: string | null; moves: string[] } | null>(initial.scramble)
+  const [algorithm, setAlgorithm] = useState(initialCase?.alg ?? '')
+  const history = useMoveHistory()
+  const { record: recordHistory, undo: undoHistory, redo: redoHistory } = history
+  const keyMap = useKeyMap()
+  const [keyMapOpen, setKeyMapOpen] = useState(false)
+  const timer = useSolveTimer()
+  const { notifyTurn, notifySolved } = timer
+
+  const moveQueue = useRef<Move[]>([])
+  // Whether the last checked state was solved, so we only fire on the transition
+  const wasSolved = useRef(true)
+  // Scramble still playing; inspection starts once its last move is done
+  const pendingInspection = useRef<string | null>(null)
+  // Algorithm from a shared link to play once the scene is up
+  const autoplaySteps = useRef(initial.autoplaySteps)
+  const playback = usePlayback()
+  const { load: loadPlayback, playing: playbackPlaying } = playback
+  const animation = useAnimationSettings()
+  const [animationOpen, setAnimationOpen] = useState(false)
+  const [faceletMode, setFaceletMode] = useState<'import' | 'export' | null>(null)
+  const [photosOpen, setPhotosOpen] = useState(false)
+  // Facelets painted so far while entering a position by hand
+  const [painted, setPainted] = useState<string | null>(null)
+  const [paintFace, setPaintFace] = useState<Face>('U')
+  const paintedCube = useMemo(() => (painted ? faceletsToStickers(painted) : null), [painted])
+  // Nothing may turn or replace the cube while stickers are being painted,
+  // as Load and Cancel expect the 3x3 painting started from
+  const painting = painted !== null
+
+  const handleMoveFinished = (move: Move) => {
+    model.current = applyMove(model.current, move)
+    setCubeState(model.current)
+    if (pendingInspection.current !== null && moveQueue.current.length === 0) {
+      timer.startInspection(pendingInspection.current)
+      pendingInspection.current = null
+    }
+  }
+
+  // Solved check after every completed move. Intermediate states of a queued
+  // sequence are ignored so an algorithm passing through solved doesn't count.
+  // Playback queues one step at a time, so it has to have handed out its last
+  // step as well.
+  useEffect(() => {
+    const solved = isSolved(cubeState)
+    if (solved && !wasSolved.current && moveQueue.current.length === 0 && !playbackPlaying) {
+      setShowSolved(true)
+      notifySolved()
+      onSolved?.()
+    }
+    if (!solved) setShowSolved(false)
+    wasSolved.current = solved
+  }, [cubeState, playbackPlaying, onSolved, notifySolved])
+
+  useEffect(() => {
+    if (autoplaySteps.current.length === 0) return
+    loadPlayback(autoplaySteps.current)
+    autoplaySteps.current = []
+  }, [loadPlayback])
+
+  // Report the current case so it can be mirrored into the URL
+  const scrambleText = currentScramble?.moves.join(' ') ?? ''
+  useEffect(() => {
+    onCaseChange?.({ size, scramble: scrambleText, alg: algorithm, autoplay })
+  }, [size, scrambleText, algorithm, autoplay, onCaseChange])
+
+  // Queues moves made by the user so they can be undone. Kept stable for the
+  // keyboard handler below.
+  const queueMoves = useCallback((moves: Move[]) => {
+    moveQueue.current.push(...moves)
+    recordHistory(moves)
+    if (turnsLayers(moves)) notifyTurn()
+  }, [recordHistory, notifyTurn])
+
+  // Playback hands out its next step whenever the scene runs out of moves
+  const playNextStep = () => {
+    const moves = playback.next()
+    if (moves) queueMoves(moves)
+  }
+
+  // Turning from the keyboard, following the selected key map
+  const keyBindings = keyMap.settings.bindings
+  useEffect(() => {
+    if (keyMapOpen || painting) return
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return
+      const target = e.target as HTMLElement | null
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return
+      const notation = moveForKey(keyBindings, e.key)
+      if (!notation) return
+      let moves: Move[]
+      try {
+        moves = parseNotation(notation, size)
+      } catch (err) {
+        // Bound to a move this cube size doesn't have, e.g. M on a 4x4
+        if (err instanceof NotationError) return
+        throw err
       }
+      e.preventDefault()
+      queueMoves(moves)
     }
-    return initialState
-  })
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [keyBindings, keyMapOpen, painting, size, queueMoves])
+
+  const undo = () => {
+    const moves = history.undo()
+    if (!moves) return
+    moveQueue.current.push(...moves)
+    if (turnsLayers(moves)) notifyTurn()
+  }
 
-  const moveQueue = useRef<Move[]>([])
+  const redo = () => {
+    const moves = history.redo()
+    if (!moves) return
+    moveQueue.current.push(...moves)
+    if (turnsLayers(moves)) notifyTurn()
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing in a field
+  useEffect(() => {
+    if (painting) return
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return
+      const target = e.target as HTMLElement | null
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return
+      e.preventDefault()
+      const moves = e.shiftKey ? redoHistory() : undoHistory()
+      if (!moves) return
+      moveQueue.current.push(...moves)
+      if (turnsLayers(moves)) notifyTurn()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [undoHistory, redoHistory, painting, notifyTurn])
+
+  const scramble = async () => {
+    if (painting) return
+    const scrambleSeed = seed.trim() || randomSeed()
+    setBusy('scramble')
+    setScrambleError(null)
+    try {
+      // Random-state scrambles need the 3x3 solver; other sizes get random
+      // turns, as in WCA competition
+      const moves = size === 3
+        ? await generateScramble(scrambleSeed)
+        : randomMoveScramble(createRandom(scrambleSeed), SCRAMBLE_LENGTHS[size], size)
+      // Scrambles are applied to a solved cube and start a fresh attempt,
+      // so there is nothing to undo past them
+      reset()
+      moveQueue.current.push(...parseNotation(moves.join(' '), size))
+      pendingInspection.current = moves.join(' ')
+      setCurrentScramble({ seed: scrambleSeed, moves })
+    } catch (e) {
+      setScrambleError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(null)
+    }
+  }
 
-  const queueMove = (axis: 'x' | 'y' | 'z', layer: number, dir: 1 | -1) => {
-    moveQueue.current.push({ axis, layer, dir })
+  // Playing back the solver's moves isn't solving it yourself, so the timed
+  // attempt, or one about to start after a scramble, is dropped
+  const loadSolution = (steps: NotationStep[]) => {
+    pendingInspection.current = null
+    timer.cancel()
+    playback.load(steps)
   }
 
-  const scramble = () => {
-    const axes: ('x' | 'y' | 'z')[] = ['x', 'y', 'z']
-    const layers = [-1, 0, 1]
-    const dirs: (1 | -1)[] = [1, -1]
-    
-    for (let i = 0; i < 20; i++) {
-        const randomAxis = axes[Math.floor(Math.random() * axes.length)]
-        const randomLayer = layers[Math.floor(Math.random() * layers.length)]
-        const randomDir = dirs[Math.floor(Math.random() * dirs.length)]
-        moveQueue.current.push({ axis: randomAxis, layer: randomLayer, dir: randomDir })
+  // The position the cube will be in once queued moves have played
+  const getTargetCube = () => applyMoves(model.current, moveQueue.current)
+
+  const solve = async () => {
+    if (painting) return
+    setSolverError(null)
+    const target = getTargetCube()
+    if (isSolved(target)) return
+    setBusy('solve')
+    try {
+      const solution = await solveFacelets(cubeToFacelets(target))
+      loadSolution(parseNotationSteps(solution.join(' ')))
+    } catch (e) {
+      setSolverError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(null)
     }
   }
 
-  const reset = () => {
+  // Starts over from `start`, a solved cube unless given
+  const reset = (nextSize = size, start = createSolvedCube(nextSize)) => {
     moveQueue.current = []
+    history.clear()
+    playback.clear()
+    setCurrentScramble(null)
+    setLinkError(null)
+    pendingInspection.current = null
+    timer.cancel()
+    wasSolved.current = true
+    setShowSolved(false)
     setResetKey(prev => prev + 1) // Force Scene remount
-    
-    const initialState: CubeState[] = []
-    for (let x = -1; x <= 1; x++) {
-      for (let y = -1; y <= 1; y++) {
-        for (let z = -1; z <= 1; z++) {
-          const colors: (string | null)[] = [
-            x === 1 ? '0' : null,
-            x === -1 ? '1' : null,
-            y === 1 ? '2' : null,
-            y === -1 ? '3' : null,
-            z === 1 ? '4' : null,
-            z === -1 ? '5' : null,
-          ]
-          initialState.push({ position: [x * 1.05, y * 1.05, z * 1.05], colors })
-        }
-      }
-    }
-    setCubeState(initialState)
+    model.current = start
+    setCubeState(model.current)
+  }
+
+  // Imported positions are always 3x3
+  const importCube = (cube: CubeState[]) => {
+    setSize(3)
+    reset(3, cube)
+  }
+
+  // Painting starts from the current position, or a solved 3x3 on other sizes
+  const startPainting = () => {
+    const start = size === 3 ? getTargetCube() : createSolvedCube(3)
+    importCube(start)
+    setPainted(cubeToFacelets(start))
+  }
+
+  const paintSticker = (index: number, slot: number) => {
+    if (!painted) return
+    const facelet = faceletIndexAt(createSolvedCube(3)[index].position, slot)
+    // Centers define the faces, so they stay as they are
+    if (facelet === -1 || facelet % 9 === 4) return
+    setPainted(painted.slice(0, facelet) + paintFace + painted.slice(facelet + 1))
+  }
+
+  const finishPainting = (load: boolean) => {
+    // Cancelling goes back to the position painting started from
+    importCube(load && painted ? faceletsToCube(painted) : model.current)
+    setPainted(null)
+  }
+
+  const changeSize = (nextSize: number) => {
+    setSize(nextSize)
+    reset(nextSize)
   }
 
   return (
     <div className="w-full h-full flex flex-col gap-6">
-      <div className="w-full h-[600px] bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 rounded-2xl shadow-2xl overflow-hidden relative">
-        <Canvas camera={{ position: [5, 5, 5], fov: 45 }}>
-          <Scene key={resetKey} cubeState={cubeState} setCubeState={setCubeState} moveQueue={moveQueue} />
-        </Canvas>
+      <div className="w-full flex flex-col lg:flex-row gap-6">
+        <div className="w-full lg:flex-1 min-w-0 h-[600px] bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 rounded-2xl shadow-2xl overflow-hidden relative">
+          <Canvas camera={{ position: [5, 5, 5], fov: 45 }}>
+            <Scene
+              key={resetKey}
+              cubeState={paintedCube ?? cubeState}
+              model={model}
+              size={size}
+              animation={animation.settings}
+              moveQueue={moveQueue}
+              onQueueMove={move => queueMoves([move])}
+              onMoveFinished={handleMoveFinished}
+              onIdle={playNextStep}
+              onPaintSticker={painted ? paintSticker : undefined}
+            />
+          </Canvas>
+
+          {showSolved && (
+            <div
+              className="absolute inset-0 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-500"
+              onClick={() => setShowSolved(false)}
+            >
+              <div className="text-center text-white animate-in zoom-in-75 duration-500">
+                <div className="text-6xl mb-2">🎉</div>
+                <p className="text-4xl font-black bg-clip-text text-transparent bg-gradient-to-r from-red-500 via-yellow-500 to-green-500">
+                  Solved!
+                </p>
+                <p className="text-sm text-white/60 mt-2">Click to continue</p>
+              </div>
+            </div>
+          )}
         
-        {/* Instructions Overlay */}
-        <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-md p-4 rounded-xl text-white/80 text-sm pointer-events-none select-none">
-           <p className="font-bold mb-1">Controls:</p>
-           <ul className="list-disc pl-4 space-y-1">
-             <li>Drag on cube to rotate layers</li>
-             <li>Drag background to rotate view</li>
-           </ul>
+          {/* Instructions Overlay */}
+          <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-md p-4 rounded-xl text-white/80 text-sm pointer-events-none select-none">
+             <p className="font-bold mb-1">Controls:</p>
+             <ul className="list-disc pl-4 space-y-1">
+               <li>Drag on cube to rotate layers</li>
+               <li>Drag background to rotate view</li>
+               <li>Use the keyboard to turn (see Keyboard)</li>
+             </ul>
+          </div>
         </div>
+
+        {painted ? (
+          <PaintPanel
+            palette={COLORS}
+            selected={paintFace}
+            onSelect={setPaintFace}
+            facelets={painted}
+            onLoad={() => finishPainting(true)}
+            onCancel={() => finishPainting(false)}
+          />
+        ) : (
+          size === 3 && <BeginnerSolverPanel getCube={getTargetCube} onPlayStage={loadSolution} />
+        )}
       </div>
 
-      <div className="flex gap-4 justify-center flex-wrap">
-        <button onClick={() => queueMove('x', -1, 1)} className="btn bg-red-600">L</button>
-        <button onClick={() => queueMove('x', -1, -1)} className="btn bg-red-600">L'</button>
-        <button onClick={() => queueMove('x', 1, 1)} className="btn bg-red-600">R</button>
-        <button onClick={() => queueMove('x', 1, -1)} className="btn bg-red-600">R'</button>
-        
-        <button onClick={() => queueMove('y', 1, 1)} className="btn bg-blue-600">U</button>
-        <button onClick={() => queueMove('y', 1, -1)} className="btn bg-blue-600">U'</button>
-        <button onClick={() => queueMove('y', -1, 1)} className="btn bg-blue-600">D</button>
-        <button onClick={() => queueMove('y', -1, -1)} className="btn bg-blue-600">D'</button>
-        
-        <button onClick={() => queueMove('z', 1, 1)} className="btn bg-green-600">F</button>
-        <button onClick={() => queueMove('z', 1, -1)} className="btn bg-green-600">F'</button>
-        <button onClick={() => queueMove('z', -1, 1)} className="btn bg-green-600">B</button>
-        <button onClick={() => queueMove('z', -1, -1)} className="btn bg-green-600">B'</button>
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        disabled={painting}
+        value={String(size)}
+        onValueChange={value => value && changeSize(Number(value))}
+        className="self-center bg-black/30 text-white"
+        aria-label="Cube size"
+      >
+        {Array.from({ length: MAX_SIZE - MIN_SIZE + 1 }, (_, i) => MIN_SIZE + i).map(n => (
+          <ToggleGroupItem key={n} value={String(n)} className="px-3 font-mono">
+            {n}x{n}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <ScrambleBar seed={seed} onSeedChange={setSeed} current={currentScramble} generating={busy === 'scramble'} />
+
+      <AlgorithmInput size={size} value={algorithm} onValueChange={setAlgorithm} onSubmit={playback.load} disabled={painting} />
+
+      <PlaybackBar
+        notation={playback.steps.map(step => step.notation)}
+        position={playback.position}
+        playing={playback.playing}
+        speed={1000 / animation.settings.duration}
+        onPlay={playback.play}
+        onPause={playback.pause}
+        onStepBack={() => queueMoves(playback.stepBack())}
+        onStepForward={() => queueMoves(playback.stepForward())}
+        onSeek={position => queueMoves(playback.seek(position))}
+        onSpeedChange={speed => animation.update({ duration: Math.round(1000 / speed) })}
+      />
+
+      <MoveButtons size={size} onMove={notation => queueMoves(parseNotation(notation, size))} disabled={painting} />
 
-        <button onClick={scramble} className="btn bg-yellow-600 font-bold px-6">Scramble</button>
-        <button onClick={reset} className="btn bg-purple-600 font-bold px-6">Reset</button>
+      <div className="flex gap-4 justify-center flex-wrap">
+        <button onClick={scramble} disabled={busy !== null || painting} className="btn bg-yellow-600 font-bold px-6 disabled:opacity-50">Scramble</button>
+        <button onClick={solve} disabled={busy !== null || painting || size !== 3} title={size !== 3 ? 'The solver handles 3x3 only' : undefined} className="btn bg-emerald-600 font-bold px-6 disabled:opacity-50">
+          {busy === 'solve' ? 'Solving…' : 'Solve'}
+        </button>
+        <button onClick={() => reset()} disabled={painting} className="btn bg-purple-600 font-bold px-6 disabled:opacity-50">Reset</button>
+
+        <button onClick={undo} disabled={!history.canUndo || painting} className="btn bg-slate-600 disabled:opacity-50" title="Undo (Ctrl+Z)">Undo</button>
+        <button onClick={redo} disabled={!history.canRedo || painting} className="btn bg-slate-600 disabled:opacity-50" title="Redo (Ctrl+Shift+Z)">Redo</button>
+        <button onClick={() => setKeyMapOpen(true)} className="btn bg-slate-600">Keyboard</button>
+        <button onClick={() => setAnimationOpen(true)} className="btn bg-slate-600">Animation</button>
+        <button onClick={startPainting} disabled={painting} className="btn bg-slate-600 disabled:opacity-50">Paint</button>
+        <button onClick={() => setPhotosOpen(true)} disabled={painting} className="btn bg-slate-600 disabled:opacity-50">Photos</button>
+        <button onClick={() => setFaceletMode('import')} disabled={painting} className="btn bg-slate-600 disabled:opacity-50">Import</button>
+        <button onClick={() => setFaceletMode('export')} disabled={size !== 3} className="btn bg-slate-600 disabled:opacity-50">Export</button>
       </div>
+
+      <KeyMapSettingsDialog
+        open={keyMapOpen}
+        onOpenChange={setKeyMapOpen}
+        settings={keyMap.settings}
+        onSelectPreset={keyMap.selectPreset}
+        onBindKey={keyMap.bindKey}
+        onUnbindKey={keyMap.unbindKey}
+      />
+
+      <AnimationSettingsDialog
+        open={animationOpen}
+        onOpenChange={setAnimationOpen}
+        settings={animation.settings}
+        onChange={animation.update}
+      />
+
+      <FaceletDialog
+        mode={faceletMode}
+        onClose={() => setFaceletMode(null)}
+        current={faceletMode === 'export' ? cubeToFacelets(getTargetCube()) : ''}
+        onImport={importCube}
+      />
+
+      <PhotoImportDialog
+        open={photosOpen}
+        onOpenChange={setPhotosOpen}
+        palette={COLORS}
+        onImport={importCube}
+      />
+
+      {linkError && (
+        <p className="text-center text-sm text-red-400">{linkError}</p>
+      )}
+
+      {solverError && (
+        <p className="text-center text-sm text-red-400">Could not solve: {solverError}</p>
+      )}
+
+      {scrambleError && (
+        <p className="text-center text-sm text-red-400">Could not scramble: {scrambleError}</p>
+      )}
+
+      <TimerPanel
+        phase={timer.phase}
+        solves={timer.solves}
+        onSetPenalty={timer.setPenalty}
+        onRemoveSolve={timer.removeSolve}
+        onClearSession={timer.clearSession}
+      />
       
       <style jsx>{`
         .btn {
@@ -0,0 +1,42 @@
+'use client'
+
+import React from 'react'
+import { Input } from '@/components/ui/input'
+
+type ScrambleBarProps = {
+  seed: string
+  onSeedChange: (seed: string) => void
+  // The last scramble applied, with the seed that produced it unless it came
+  // from a shared link
+  current: { seed: string | null; moves: string[] } | null
+  generating: boolean
+}
+
+export function ScrambleBar({ seed, onSeedChange, current, generating }: ScrambleBarProps) {
+  return (
+    <div className="w-full flex flex-col sm:flex-row gap-3 sm:items-center bg-black/30 rounded-xl px-4 py-3 text-white">
+      <label className="flex items-center gap-2 text-sm text-white/70 shrink-0">
+        Seed
+        <Input
+          value={seed}
+          onChange={e => onSeedChange(e.target.value)}
+          placeholder="random"
+          spellCheck={false}
+          className="w-36 h-8 font-mono text-white bg-black/40 border-white/20 placeholder:text-white/40"
+        />
+      </label>
+      <div className="font-mono text-sm min-w-0 break-words">
+        {generating && <span className="text-white/60">Generating scramble…</span>}
+        {!generating && current && (
+          <>
+            <span className="text-yellow-400">{current.moves.join(' ')}</span>
+            {current.seed !== null && <span className="text-white/50"> · seed {current.seed}</span>}
+          </>
+        )}
+        {!generating && !current && (
+          <span className="text-white/40">Press Scramble for a WCA scramble</span>
+        )}
+      </div>
+    </div>
+  )
+}
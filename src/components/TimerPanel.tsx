@@ -0,0 +1,150 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+import {
+  type Penalty,
+  type SolveRecord,
+  INSPECTION_MS,
+  averageOf,
+  bestSingle,
+  formatSolve,
+  formatTime,
+  meanOf,
+} from '@/lib/cube/timer'
+import type { TimerPhase } from '@/hooks/use-solve-timer'
+
+type TimerPanelProps = {
+  phase: TimerPhase
+  solves: SolveRecord[]
+  onSetPenalty: (id: string, penalty: Penalty) => void
+  onRemoveSolve: (id: string) => void
+  onClearSession: () => void
+}
+
+// Re-renders every animation frame while `active`, returning the current time
+function useNow(active: boolean) {
+  const [now, setNow] = useState(() => performance.now())
+  useEffect(() => {
+    if (!active) return
+    let frame = requestAnimationFrame(function tick(time) {
+      setNow(time)
+      frame = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [active])
+  return now
+}
+
+function TimerDisplay({ phase, lastSolve }: { phase: TimerPhase; lastSolve: SolveRecord | undefined }) {
+  const now = useNow(phase.name !== 'idle')
+
+  if (phase.name === 'inspecting') {
+    const elapsed = Math.max(0, now - phase.startedAt)
+    const remaining = Math.ceil((INSPECTION_MS - elapsed) / 1000)
+    return (
+      <div className="text-center">
+        <div className={cn('text-6xl font-black tabular-nums', remaining > 0 ? 'text-orange-400' : 'text-red-500')}>
+          {remaining > 0 ? remaining : '+2'}
+        </div>
+        <p className="text-sm text-white/60">Inspection, the timer starts on your first turn</p>
+      </div>
+    )
+  }
+
+  if (phase.name === 'running') {
+    return (
+      <div className="text-center">
+        <div className="text-6xl font-black tabular-nums text-white">
+          {formatTime(Math.max(0, now - phase.startedAt))}
+        </div>
+        <p className="text-sm text-white/60">
+          {phase.penalty === '+2' ? '+2 for overtime inspection' : 'Solving…'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-center">
+      <div className="text-6xl font-black tabular-nums text-white/80">
+        {lastSolve ? formatSolve(lastSolve) : formatTime(0)}
+      </div>
+      <p className="text-sm text-white/60">Scramble to start a timed solve</p>
+    </div>
+  )
+}
+
+export function TimerPanel({ phase, solves, onSetPenalty, onRemoveSolve, onClearSession }: TimerPanelProps) {
+  const stats = [
+    { label: 'Best', value: bestSingle(solves) },
+    { label: 'mo3', value: meanOf(solves, 3) },
+    { label: 'ao5', value: averageOf(solves, 5) },
+    { label: 'ao12', value: averageOf(solves, 12) },
+    { label: 'ao100', value: averageOf(solves, 100) },
+  ]
+
+  return (
+    <div className="w-full grid md:grid-cols-2 gap-6 bg-black/30 rounded-2xl p-6 text-white">
+      <div className="flex flex-col justify-center gap-6">
+        <TimerDisplay phase={phase} lastSolve={solves[solves.length - 1]} />
+        <dl className="grid grid-cols-5 gap-2 text-center">
+          {stats.map(stat => (
+            <div key={stat.label}>
+              <dt className="text-xs text-white/50">{stat.label}</dt>
+              <dd className="font-mono tabular-nums">{formatTime(stat.value)}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div className="flex flex-col gap-2 min-h-0">
+        <div className="flex justify-between items-center">
+          <h3 className="font-semibold">Session ({solves.length})</h3>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onClearSession}
+            disabled={solves.length === 0}
+            className="text-white/70 hover:text-white hover:bg-white/10"
+          >
+            Clear
+          </Button>
+        </div>
+        <ScrollArea className="h-48">
+          <ol className="flex flex-col-reverse">
+            {solves.map((solve, i) => (
+              <li key={solve.id} className="flex items-center gap-2 py-1 border-b border-white/5 text-sm">
+                <span className="w-8 text-white/40 tabular-nums">{i + 1}.</span>
+                <span className="w-24 font-mono tabular-nums" title={solve.scramble}>{formatSolve(solve)}</span>
+                <div className="ml-auto flex gap-1">
+                  {(['+2', 'DNF'] as const).map(penalty => (
+                    <button
+                      key={penalty}
+                      onClick={() => onSetPenalty(solve.id, solve.penalty === penalty ? 'none' : penalty)}
+                      className={cn(
+                        'px-2 rounded text-xs',
+                        solve.penalty === penalty ? 'bg-red-600 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                      )}
+                    >
+                      {penalty}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => onRemoveSolve(solve.id)}
+                    className="px-2 rounded text-xs bg-white/10 text-white/70 hover:bg-white/20"
+                    aria-label="Delete solve"
+                  >
+                    ×
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </div>
+    </div>
+  )
+}
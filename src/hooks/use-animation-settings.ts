@@ -0,0 +1,28 @@
+import * as React from "react"
+
+import {
+  type AnimationSettings,
+  DEFAULT_ANIMATION,
+  loadAnimationSettings,
+  saveAnimationSettings,
+} from "@/lib/cube/animation"
+
+// Turn animation settings, persisted in localStorage
+export function useAnimationSettings() {
+  const [settings, setSettings] = React.useState<AnimationSettings>(DEFAULT_ANIMATION)
+
+  // Storage is only available in the browser, so load after mounting
+  React.useEffect(() => {
+    setSettings(loadAnimationSettings())
+  }, [])
+
+  const update = React.useCallback((changes: Partial<AnimationSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes }
+      saveAnimationSettings(next)
+      return next
+    })
+  }, [])
+
+  return { settings, update }
+}
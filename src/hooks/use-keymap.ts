@@ -0,0 +1,39 @@
+import * as React from "react"
+
+import {
+  type KeyMapSettings,
+  DEFAULT_PRESET_ID,
+  loadKeyMapSettings,
+  presetSettings,
+  saveKeyMapSettings,
+} from "@/lib/cube/keymap"
+
+// Keyboard turning layout, persisted in localStorage
+export function useKeyMap() {
+  const [settings, setSettings] = React.useState<KeyMapSettings>(() => presetSettings(DEFAULT_PRESET_ID))
+
+  // Storage is only available in the browser, so load after mounting
+  React.useEffect(() => {
+    setSettings(loadKeyMapSettings())
+  }, [])
+
+  const update = React.useCallback((next: KeyMapSettings) => {
+    setSettings(next)
+    saveKeyMapSettings(next)
+  }, [])
+
+  const selectPreset = React.useCallback((id: string) => update(presetSettings(id)), [update])
+
+  // Binds `key` to `move`, taking the key away from whatever it did before
+  const bindKey = React.useCallback((key: string, move: string) => {
+    update({ preset: "custom", bindings: { ...settings.bindings, [key]: move } })
+  }, [settings, update])
+
+  const unbindKey = React.useCallback((key: string) => {
+    const bindings = { ...settings.bindings }
+    delete bindings[key]
+    update({ preset: "custom", bindings })
+  }, [settings, update])
+
+  return { settings, selectPreset, bindKey, unbindKey }
+}
@@ -0,0 +1,52 @@
+import * as React from "react"
+
+import { type Move, invertMove } from "@/lib/cube/model"
+
+// Undo/redo stacks of user actions, each the layer moves of one written move,
+// button press or drag. `undo` and `redo` return the moves to queue (the
+// undone action played backwards, or the redone action itself).
+export function useMoveHistory() {
+  const done = React.useRef<Move[][]>([])
+  const undone = React.useRef<Move[][]>([])
+  // Bumped on every change so buttons re-render with the right enabled state
+  const [, setVersion] = React.useState(0)
+  const changed = () => setVersion(v => v + 1)
+
+  const record = React.useCallback((moves: Move[]) => {
+    if (moves.length === 0) return
+    done.current.push(moves)
+    undone.current = []
+    changed()
+  }, [])
+
+  const undo = React.useCallback((): Move[] | null => {
+    const moves = done.current.pop()
+    if (!moves) return null
+    undone.current.push(moves)
+    changed()
+    return [...moves].reverse().map(invertMove)
+  }, [])
+
+  const redo = React.useCallback((): Move[] | null => {
+    const moves = undone.current.pop()
+    if (!moves) return null
+    done.current.push(moves)
+    changed()
+    return moves
+  }, [])
+
+  const clear = React.useCallback(() => {
+    done.current = []
+    undone.current = []
+    changed()
+  }, [])
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: done.current.length > 0,
+    canRedo: undone.current.length > 0,
+  }
+}
@@ -0,0 +1,81 @@
+import * as React from "react"
+
+import { type Move, invertMove } from "@/lib/cube/model"
+import type { NotationStep } from "@/lib/cube/notation"
+
+const invertSteps = (steps: NotationStep[]): Move[] =>
+  steps.flatMap(step => step.moves).reverse().map(invertMove)
+
+// Playback of a loaded sequence one written move at a time. `position` counts
+// the steps handed out so far; every method returns the layer moves to queue
+// to get the cube there.
+export function usePlayback() {
+  const steps = React.useRef<NotationStep[]>([])
+  const position = React.useRef(0)
+  const playing = React.useRef(false)
+  // Bumped on every change so the playback bar re-renders
+  const [, setVersion] = React.useState(0)
+  const changed = () => setVersion(v => v + 1)
+
+  const load = React.useCallback((sequence: NotationStep[]) => {
+    steps.current = sequence
+    position.current = 0
+    playing.current = sequence.length > 0
+    changed()
+  }, [])
+
+  const clear = React.useCallback(() => load([]), [load])
+
+  // Next step while playing, or null once paused or at the end
+  const next = React.useCallback((): Move[] | null => {
+    if (!playing.current) return null
+    const step = steps.current[position.current]
+    if (!step) {
+      playing.current = false
+      changed()
+      return null
+    }
+    position.current++
+    if (position.current === steps.current.length) playing.current = false
+    changed()
+    return step.moves
+  }, [])
+
+  const play = React.useCallback(() => {
+    if (position.current >= steps.current.length) return
+    playing.current = true
+    changed()
+  }, [])
+
+  const pause = React.useCallback(() => {
+    playing.current = false
+    changed()
+  }, [])
+
+  const seek = React.useCallback((index: number): Move[] => {
+    const target = Math.max(0, Math.min(steps.current.length, index))
+    const from = position.current
+    position.current = target
+    playing.current = false
+    changed()
+    if (target >= from) return steps.current.slice(from, target).flatMap(step => step.moves)
+    return invertSteps(steps.current.slice(target, from))
+  }, [])
+
+  const stepForward = React.useCallback(() => seek(position.current + 1), [seek])
+  const stepBack = React.useCallback(() => seek(position.current - 1), [seek])
+
+  return {
+    steps: steps.current,
+    position: position.current,
+    playing: playing.current,
+    load,
+    clear,
+    next,
+    play,
+    pause,
+    seek,
+    stepForward,
+    stepBack,
+  }
+}
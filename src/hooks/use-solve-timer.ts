@@ -0,0 +1,116 @@
+import * as React from "react"
+
+import {
+  type Penalty,
+  type SolveRecord,
+  INSPECTION_DNF_MS,
+  inspectionPenalty,
+  loadSession,
+  saveSession,
+} from "@/lib/cube/timer"
+
+export type TimerPhase =
+  // Nothing to time until the next scramble
+  | { name: "idle" }
+  // Scrambled, counting inspection until the first turn
+  | { name: "inspecting"; scramble: string; startedAt: number }
+  // Solving, with the penalty earned during inspection
+  | { name: "running"; scramble: string; startedAt: number; penalty: Penalty }
+
+// Speedsolving timer: WCA inspection after a scramble, starts on the first
+// turn and stops when the cube is solved. Solves are kept in a session
+// persisted in localStorage.
+export function useSolveTimer() {
+  const [phase, setPhase] = React.useState<TimerPhase>({ name: "idle" })
+  const [solves, setSolves] = React.useState<SolveRecord[]>([])
+  // Latest phase for event handlers that fire between renders
+  const phaseRef = React.useRef(phase)
+  phaseRef.current = phase
+
+  React.useEffect(() => {
+    setSolves(loadSession())
+  }, [])
+
+  const updateSolves = React.useCallback((update: (solves: SolveRecord[]) => SolveRecord[]) => {
+    setSolves(prev => {
+      const next = update(prev)
+      saveSession(next)
+      return next
+    })
+  }, [])
+
+  const addSolve = React.useCallback((time: number, penalty: Penalty, scramble: string) => {
+    const solve: SolveRecord = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      time,
+      penalty,
+      scramble,
+      date: Date.now(),
+    }
+    updateSolves(prev => [...prev, solve])
+  }, [updateSolves])
+
+  const startInspection = React.useCallback((scramble: string) => {
+    setPhase({ name: "inspecting", scramble, startedAt: performance.now() })
+  }, [])
+
+  // Inspection running past 17 seconds without a turn is a DNF
+  React.useEffect(() => {
+    if (phase.name !== "inspecting") return
+    const remaining = phase.startedAt + INSPECTION_DNF_MS - performance.now()
+    const timeout = window.setTimeout(() => {
+      addSolve(0, "DNF", phase.scramble)
+      setPhase({ name: "idle" })
+    }, Math.max(0, remaining))
+    return () => window.clearTimeout(timeout)
+  }, [phase, addSolve])
+
+  const notifyTurn = React.useCallback(() => {
+    const current = phaseRef.current
+    if (current.name !== "inspecting") return
+    const now = performance.now()
+    const next: TimerPhase = {
+      name: "running",
+      scramble: current.scramble,
+      startedAt: now,
+      penalty: inspectionPenalty(now - current.startedAt),
+    }
+    phaseRef.current = next
+    setPhase(next)
+  }, [])
+
+  const notifySolved = React.useCallback(() => {
+    const current = phaseRef.current
+    if (current.name !== "running") return
+    addSolve(performance.now() - current.startedAt, current.penalty, current.scramble)
+    phaseRef.current = { name: "idle" }
+    setPhase({ name: "idle" })
+  }, [addSolve])
+
+  const cancel = React.useCallback(() => {
+    phaseRef.current = { name: "idle" }
+    setPhase({ name: "idle" })
+  }, [])
+
+  const setPenalty = React.useCallback((id: string, penalty: Penalty) => {
+    updateSolves(prev => prev.map(s => (s.id === id ? { ...s, penalty } : s)))
+  }, [updateSolves])
+
+  const removeSolve = React.useCallback((id: string) => {
+    updateSolves(prev => prev.filter(s => s.id !== id))
+  }, [updateSolves])
+
+  const clearSession = React.useCallback(() => updateSolves(() => []), [updateSolves])
+
+  return {
+    phase,
+    solves,
+    startInspection,
+    notifyTurn,
+    notifySolved,
+    cancel,
+    setPenalty,
+    removeSolve,
+    clearSession,
+  }
+}
@@ -0,0 +1,76 @@
+import * as React from "react"
+
+import type { SolveStage } from "@/lib/cube/solver/beginner"
+import type { SolverRequest, SolverResponse } from "@/lib/cube/solver/solver.worker"
+
+// Requests are numbered here, so callers pass everything but the id
+type Task<R = SolverRequest> = R extends SolverRequest ? Omit<R, "id"> : never
+
+type Pending = {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+}
+
+// Solves facelet strings in a Web Worker, either with the two-phase solver or
+// stage by stage with the beginner's method, and generates random-state
+// scrambles. The worker is started on the first call and stopped when the
+// component unmounts.
+export function useSolver() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const pendingRef = React.useRef(new Map<number, Pending>())
+  const nextId = React.useRef(0)
+  const [solving, setSolving] = React.useState(false)
+
+  React.useEffect(() => {
+    const pending = pendingRef.current
+    return () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+      pending.forEach(p => p.reject(new Error("Solver stopped")))
+      pending.clear()
+    }
+  }, [])
+
+  const getWorker = () => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL("../lib/cube/solver/solver.worker.ts", import.meta.url))
+      worker.onmessage = (event: MessageEvent<SolverResponse>) => {
+        const response = event.data
+        const pending = pendingRef.current.get(response.id)
+        if (!pending) return
+        pendingRef.current.delete(response.id)
+        if (pendingRef.current.size === 0) setSolving(false)
+        if ("error" in response) pending.reject(new Error(response.error))
+        else pending.resolve(response.result)
+      }
+      workerRef.current = worker
+    }
+    return workerRef.current
+  }
+
+  const run = React.useCallback((task: Task) => {
+    return new Promise<unknown>((resolve, reject) => {
+      const id = nextId.current++
+      pendingRef.current.set(id, { resolve, reject })
+      setSolving(true)
+      getWorker().postMessage({ ...task, id } as SolverRequest)
+    })
+  }, [])
+
+  const solve = React.useCallback(
+    (facelets: string) => run({ method: "two-phase", facelets }) as Promise<string[]>,
+    [run]
+  )
+
+  const solveStages = React.useCallback(
+    (facelets: string) => run({ method: "beginner", facelets }) as Promise<SolveStage[]>,
+    [run]
+  )
+
+  const scramble = React.useCallback(
+    (seed: string) => run({ method: "scramble", seed }) as Promise<string[]>,
+    [run]
+  )
+
+  return { solve, solveStages, scramble, solving }
+}
@@ -0,0 +1,80 @@
+// How layer turns are animated: the time a quarter turn takes, the easing
+// curve it follows, or no animation at all.
+
+export type EasingId = 'linear' | 'cubic' | 'back' | 'spring'
+
+export type Easing = {
+  id: EasingId
+  name: string
+  // Maps animation progress 0..1 to turn progress; must end at exactly 1
+  ease: (t: number) => number
+}
+
+export const EASINGS: Easing[] = [
+  { id: 'linear', name: 'Linear', ease: t => t },
+  {
+    id: 'cubic',
+    name: 'Cubic',
+    ease: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  },
+  {
+    // Overshoots slightly and settles back, like a layer clicking into place
+    id: 'back',
+    name: 'Back',
+    ease: t => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2),
+  },
+  {
+    // Damped oscillation around the target, at rest exactly when t = 1
+    id: 'spring',
+    name: 'Spring',
+    ease: t => 1 - Math.exp(-6 * t) * Math.cos(4.5 * Math.PI * t),
+  },
+]
+
+export type AnimationSettings = {
+  easing: EasingId
+  // Duration of one quarter turn in milliseconds
+  duration: number
+  // Apply moves immediately without animating them
+  instant: boolean
+}
+
+export const MIN_TURN_DURATION = 100
+export const MAX_TURN_DURATION = 2000
+
+export const DEFAULT_ANIMATION: AnimationSettings = { easing: 'cubic', duration: 250, instant: false }
+
+export function easingFunction(id: EasingId): (t: number) => number {
+  return (EASINGS.find(e => e.id === id) ?? EASINGS[1]).ease
+}
+
+const STORAGE_KEY = 'rubiks-cube:animation'
+
+export function loadAnimationSettings(): AnimationSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored) as AnimationSettings
+      if (
+        EASINGS.some(e => e.id === parsed.easing) &&
+        typeof parsed.duration === 'number' &&
+        parsed.duration >= MIN_TURN_DURATION &&
+        parsed.duration <= MAX_TURN_DURATION &&
+        typeof parsed.instant === 'boolean'
+      ) {
+        return parsed
+      }
+    }
+  } catch {
+    // Unavailable storage or a corrupt entry falls back to the defaults
+  }
+  return DEFAULT_ANIMATION
+}
+
+export function saveAnimationSettings(settings: AnimationSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // Settings just won't persist, e.g. in private browsing
+  }
+}
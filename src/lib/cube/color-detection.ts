@@ -0,0 +1,79 @@
+// Sticker color detection from photos of the six faces, run entirely in the
+// browser. Each photo is expected to show one face filling a square crop,
+// read in facelet orientation (see facelets.ts).
+
+import { type Face, FACE_ORDER } from './facelets'
+
+export type Rgb = [number, number, number]
+
+// Pixel data as found on ImageData
+export type Pixels = {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+// Share of each grid cell, around its middle, that is averaged. The rest is
+// left out to stay clear of the black plastic between stickers.
+const SAMPLE_AREA = 0.4
+
+// Average color of each cell of a 3x3 grid over the image, row by row
+export function sampleGrid({ data, width, height }: Pixels): Rgb[] {
+  const samples: Rgb[] = []
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      const x0 = Math.floor(((col + 0.5 - SAMPLE_AREA / 2) * width) / 3)
+      const x1 = Math.ceil(((col + 0.5 + SAMPLE_AREA / 2) * width) / 3)
+      const y0 = Math.floor(((row + 0.5 - SAMPLE_AREA / 2) * height) / 3)
+      const y1 = Math.ceil(((row + 0.5 + SAMPLE_AREA / 2) * height) / 3)
+      const sum: Rgb = [0, 0, 0]
+      let count = 0
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4
+          sum[0] += data[i]
+          sum[1] += data[i + 1]
+          sum[2] += data[i + 2]
+          count++
+        }
+      }
+      samples.push(sum.map(v => v / Math.max(1, count)) as Rgb)
+    }
+  }
+  return samples
+}
+
+// CIE L*a*b* under D65, where distances roughly follow perceived difference
+function toLab([r, g, b]: Rgb): Rgb {
+  const linear = (c: number) => {
+    const v = c / 255
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+  }
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)]
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116)
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))]
+}
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+
+// Names the face each sampled sticker belongs to by the center it is closest
+// to in color. Using the photographed centers as references, rather than fixed
+// colors, copes with lighting and sticker shades. Faces without a photo are
+// left as null, and stickers can only match the centers that were sampled.
+export function classifyStickers(samples: Partial<Record<Face, Rgb[]>>): Record<Face, (Face | null)[]> {
+  const centers = (Object.entries(samples) as [Face, Rgb[]][]).map(([face, cells]) => ({ face, lab: toLab(cells[4]) }))
+  const result = {} as Record<Face, (Face | null)[]>
+  for (const face of FACE_ORDER) {
+    const cells = samples[face]
+    result[face] = cells
+      ? cells.map(cell => {
+          const lab = toLab(cell)
+          return centers.reduce((best, c) => (distance(lab, c.lab) < distance(lab, best.lab) ? c : best)).face
+        })
+      : new Array(9).fill(null)
+  }
+  return result
+}
@@ -0,0 +1,206 @@
+// Cubie-level representation of a 3x3 cube: which corner and edge sits in
+// each slot and how it is twisted or flipped. This is the compact form the
+// solvers search over; it is derived from a facelet string (see facelets.ts).
+
+import type { Face } from './facelets'
+
+// Corner slots: URF, UFL, ULB, UBR, DFR, DLF, DBL, DRB
+// Edge slots:   UR, UF, UL, UB, DR, DF, DL, DB, FR, FL, BL, BR
+export type CubieCube = {
+  cp: number[]
+  co: number[]
+  ep: number[]
+  eo: number[]
+}
+
+export const CORNER_COUNT = 8
+export const EDGE_COUNT = 12
+
+// Facelet indices of each corner slot, clockwise starting from the U/D sticker
+const CORNER_FACELETS = [
+  [8, 9, 20], [6, 18, 38], [0, 36, 47], [2, 45, 11],
+  [29, 26, 15], [27, 44, 24], [33, 53, 42], [35, 17, 51],
+]
+
+const CORNER_COLORS: Face[][] = [
+  ['U', 'R', 'F'], ['U', 'F', 'L'], ['U', 'L', 'B'], ['U', 'B', 'R'],
+  ['D', 'F', 'R'], ['D', 'L', 'F'], ['D', 'B', 'L'], ['D', 'R', 'B'],
+]
+
+// Facelet indices of each edge slot, reference sticker first
+const EDGE_FACELETS = [
+  [5, 10], [7, 19], [3, 37], [1, 46], [32, 16], [28, 25],
+  [30, 43], [34, 52], [23, 12], [21, 41], [50, 39], [48, 14],
+]
+
+const EDGE_COLORS: Face[][] = [
+  ['U', 'R'], ['U', 'F'], ['U', 'L'], ['U', 'B'], ['D', 'R'], ['D', 'F'],
+  ['D', 'L'], ['D', 'B'], ['F', 'R'], ['F', 'L'], ['B', 'L'], ['B', 'R'],
+]
+
+export function solvedCubie(): CubieCube {
+  return {
+    cp: [0, 1, 2, 3, 4, 5, 6, 7],
+    co: [0, 0, 0, 0, 0, 0, 0, 0],
+    ep: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+    eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  }
+}
+
+export function cloneCubie(c: CubieCube): CubieCube {
+  return { cp: [...c.cp], co: [...c.co], ep: [...c.ep], eo: [...c.eo] }
+}
+
+// Converts a facelet string to cubies. Pieces whose colors don't match any
+// real corner or edge are reported as -1 in the permutation.
+export function faceletsToCubie(facelets: string): CubieCube {
+  const cube = solvedCubie()
+
+  for (let i = 0; i < CORNER_COUNT; i++) {
+    let ori = 0
+    while (ori < 3) {
+      const f = facelets[CORNER_FACELETS[i][ori]]
+      if (f === 'U' || f === 'D') break
+      ori++
+    }
+    const col1 = facelets[CORNER_FACELETS[i][(ori + 1) % 3]]
+    const col2 = facelets[CORNER_FACELETS[i][(ori + 2) % 3]]
+    cube.cp[i] = CORNER_COLORS.findIndex(c => c[1] === col1 && c[2] === col2)
+    cube.co[i] = ori % 3
+  }
+
+  for (let i = 0; i < EDGE_COUNT; i++) {
+    const a = facelets[EDGE_FACELETS[i][0]]
+    const b = facelets[EDGE_FACELETS[i][1]]
+    cube.ep[i] = -1
+    for (let j = 0; j < EDGE_COUNT; j++) {
+      if (EDGE_COLORS[j][0] === a && EDGE_COLORS[j][1] === b) {
+        cube.ep[i] = j
+        cube.eo[i] = 0
+        break
+      }
+      if (EDGE_COLORS[j][0] === b && EDGE_COLORS[j][1] === a) {
+        cube.ep[i] = j
+        cube.eo[i] = 1
+        break
+      }
+    }
+  }
+
+  return cube
+}
+
+export function cubieToFacelets(cube: CubieCube): string {
+  const facelets: string[] = []
+  for (let f = 0; f < 6; f++) {
+    // Centers are fixed
+    facelets[f * 9 + 4] = 'URFDLB'[f]
+  }
+  for (let i = 0; i < CORNER_COUNT; i++) {
+    for (let n = 0; n < 3; n++) {
+      facelets[CORNER_FACELETS[i][(n + cube.co[i]) % 3]] = CORNER_COLORS[cube.cp[i]][n]
+    }
+  }
+  for (let i = 0; i < EDGE_COUNT; i++) {
+    for (let n = 0; n < 2; n++) {
+      facelets[EDGE_FACELETS[i][(n + cube.eo[i]) % 2]] = EDGE_COLORS[cube.ep[i]][n]
+    }
+  }
+  return facelets.join('')
+}
+
+// Returns a * b, i.e. the cube `a` followed by the move or cube `b`
+export function multiply(a: CubieCube, b: CubieCube): CubieCube {
+  const result = solvedCubie()
+  for (let i = 0; i < CORNER_COUNT; i++) {
+    result.cp[i] = a.cp[b.cp[i]]
+    result.co[i] = (a.co[b.cp[i]] + b.co[i]) % 3
+  }
+  for (let i = 0; i < EDGE_COUNT; i++) {
+    result.ep[i] = a.ep[b.ep[i]]
+    result.eo[i] = (a.eo[b.ep[i]] + b.eo[i]) % 2
+  }
+  return result
+}
+
+// Clockwise quarter turns of each face, in URFDLB order
+export const FACE_CUBES: CubieCube[] = [
+  {
+    cp: [3, 0, 1, 2, 4, 5, 6, 7], co: [0, 0, 0, 0, 0, 0, 0, 0],
+    ep: [3, 0, 1, 2, 4, 5, 6, 7, 8, 9, 10, 11], eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  },
+  {
+    cp: [4, 1, 2, 0, 7, 5, 6, 3], co: [2, 0, 0, 1, 1, 0, 0, 2],
+    ep: [8, 1, 2, 3, 11, 5, 6, 7, 4, 9, 10, 0], eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  },
+  {
+    cp: [1, 5, 2, 3, 0, 4, 6, 7], co: [1, 2, 0, 0, 2, 1, 0, 0],
+    ep: [0, 9, 2, 3, 4, 8, 6, 7, 1, 5, 10, 11], eo: [0, 1, 0, 0, 0, 1, 0, 0, 1, 1, 0, 0],
+  },
+  {
+    cp: [0, 1, 2, 3, 5, 6, 7, 4], co: [0, 0, 0, 0, 0, 0, 0, 0],
+    ep: [0, 1, 2, 3, 5, 6, 7, 4, 8, 9, 10, 11], eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  },
+  {
+    cp: [0, 2, 6, 3, 4, 1, 5, 7], co: [0, 1, 2, 0, 0, 2, 1, 0],
+    ep: [0, 1, 10, 3, 4, 5, 9, 7, 8, 2, 6, 11], eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  },
+  {
+    cp: [0, 1, 3, 7, 4, 5, 2, 6], co: [0, 0, 1, 2, 0, 0, 2, 1],
+    ep: [0, 1, 2, 11, 4, 5, 6, 10, 8, 9, 3, 7], eo: [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 1, 1],
+  },
+]
+
+// Face turn index: 3 * face + power, power 0 = clockwise, 1 = half, 2 = prime
+export const MOVE_NAMES = FACE_CUBES.flatMap((_, f) => {
+  const face = 'URFDLB'[f]
+  return [face, `${face}2`, `${face}'`]
+})
+
+// All 18 face turns as cubie cubes, indexed like MOVE_NAMES
+export const MOVE_CUBES: CubieCube[] = FACE_CUBES.flatMap(face => {
+  const half = multiply(face, face)
+  return [face, half, multiply(half, face)]
+})
+
+export function applyCubieMove(cube: CubieCube, move: number): CubieCube {
+  return multiply(cube, MOVE_CUBES[move])
+}
+
+export function isCubieSolved(cube: CubieCube): boolean {
+  return (
+    cube.cp.every((p, i) => p === i) &&
+    cube.co.every(o => o === 0) &&
+    cube.ep.every((p, i) => p === i) &&
+    cube.eo.every(o => o === 0)
+  )
+}
+
+function permutationParity(p: number[]): number {
+  let parity = 0
+  for (let i = 0; i < p.length; i++) {
+    for (let j = i + 1; j < p.length; j++) if (p[j] < p[i]) parity ^= 1
+  }
+  return parity
+}
+
+// Checks that the cube can be reached from solved by legal turns. Returns a
+// description of the first problem found, or null for a valid cube.
+export function verifyCubie(cube: CubieCube): string | null {
+  if (cube.cp.includes(-1) || new Set(cube.cp).size !== CORNER_COUNT) {
+    return 'Corner colors do not form a valid set of corners'
+  }
+  if (cube.ep.includes(-1) || new Set(cube.ep).size !== EDGE_COUNT) {
+    return 'Edge colors do not form a valid set of edges'
+  }
+  if (cube.co.reduce((a, b) => a + b, 0) % 3 !== 0) {
+    return 'A corner is twisted'
+  }
+  if (cube.eo.reduce((a, b) => a + b, 0) % 2 !== 0) {
+    return 'An edge is flipped'
+  }
+  if (permutationParity(cube.cp) !== permutationParity(cube.ep)) {
+    return 'Two pieces are swapped'
+  }
+  return null
+}
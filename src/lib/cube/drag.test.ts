@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { dragAxes, dragMove, faceNormal } from './drag'
+import { type Axis, type CubeState, type Vec3, AXIS_INDEX, SLOT_DIRECTIONS, applyMove, createSolvedCube, worldColors } from './model'
+import { formatMove } from './notation'
+
+const solved = createSolvedCube(3)
+const cubieAt = (position: Vec3) => solved.find(c => c.position.every((v, i) => v === position[i]))!
+
+describe('dragMove', () => {
+  // One drag on each face, pushing stickers the way the named move carries them
+  it.each([
+    { face: 'F', position: [2, 1, 2], normal: [0, 0, 1], along: 'y', dir: 1, expected: 'R' }, // right column up
+    { face: 'U', position: [1, 2, 2], normal: [0, 1, 0], along: 'x', dir: 1, expected: 'F' }, // front row right
+    { face: 'R', position: [2, 2, 1], normal: [1, 0, 0], along: 'z', dir: 1, expected: 'U' }, // top row to the front
+    { face: 'L', position: [0, 2, 1], normal: [-1, 0, 0], along: 'z', dir: -1, expected: 'U' }, // top row to the back
+    { face: 'D', position: [1, 0, 2], normal: [0, -1, 0], along: 'x', dir: -1, expected: 'F' }, // front row left
+    { face: 'B', position: [2, 1, 0], normal: [0, 0, -1], along: 'y', dir: -1, expected: 'R' }, // right column down
+  ] as { face: string; position: Vec3; normal: Vec3; along: Axis; dir: 1 | -1; expected: string }[])(
+    'turns $expected when dragging on $face',
+    ({ position, normal, along, dir, expected }) => {
+      expect(formatMove(dragMove(cubieAt(position), normal, along, dir))).toBe(expected)
+      expect(formatMove(dragMove(cubieAt(position), normal, along, -dir as 1 | -1))).toBe(`${expected}'`)
+    }
+  )
+
+  // Hits on the rounded edges and corners of a core point between faces
+  it.each([
+    { direction: [0.6, 0.55, 0.58], expected: [1, 0, 0] },
+    { direction: [0.1, -0.7, 0.69], expected: [0, -1, 0] },
+    { direction: [0.57735, 0.57735, 0.57735], expected: [1, 0, 0] },
+  ] as { direction: Vec3; expected: Vec3 }[])('treats a hit facing $direction as $expected', ({ direction, expected }) => {
+    expect(faceNormal(direction)).toEqual(expected)
+    expect(dragAxes(direction)).toEqual(dragAxes(expected))
+    const corner = cubieAt([2, 0, 2])
+    for (const along of dragAxes(expected)) {
+      expect(dragMove(corner, direction, along, 1)).toEqual(dragMove(corner, expected, along, 1))
+    }
+  })
+
+  it('turns every dragged sticker to face the way it was pushed', () => {
+    const facing = (cubie: CubeState, color: string) => SLOT_DIRECTIONS[worldColors(cubie).indexOf(color)]
+    for (const cubie of solved) {
+      worldColors(cubie).forEach((color, slot) => {
+        if (color === null) return
+        const normal = SLOT_DIRECTIONS[slot]
+        for (const along of dragAxes(normal)) {
+          for (const dir of [1, -1] as const) {
+            const move = dragMove(cubie, normal, along, dir)
+            const moved = applyMove(solved, move)[solved.indexOf(cubie)]
+            const expected: Vec3 = [0, 0, 0]
+            expected[AXIS_INDEX[along]] = dir
+            expect(facing(moved, color)).toEqual(expected)
+          }
+        }
+      })
+    }
+  })
+})
@@ -0,0 +1,36 @@
+// Turning layers by dragging stickers.
+
+import { type Axis, type CubeState, type Move, type Vec3, AXIS_INDEX } from './model'
+
+const AXES: Axis[] = ['x', 'y', 'z']
+
+const cross = ([ax, ay, az]: Vec3, [bx, by, bz]: Vec3): Vec3 => [ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx]
+
+// The face direction closest to `direction`. Hits on the rounded edges and
+// corners of a cubie have normals between faces, so the largest component
+// decides, keeping its sign.
+export function faceNormal(direction: Vec3): Vec3 {
+  const index = direction.reduce((best, v, i) => (Math.abs(v) > Math.abs(direction[best]) ? i : best), 0)
+  const normal: Vec3 = [0, 0, 0]
+  normal[index] = direction[index] < 0 ? -1 : 1
+  return normal
+}
+
+// Axes a sticker facing `normal` can be dragged along
+export function dragAxes(normal: Vec3): [Axis, Axis] {
+  const face = faceNormal(normal)
+  return AXES.filter((_, i) => face[i] === 0) as [Axis, Axis]
+}
+
+// The layer move that carries the sticker of `cubie` facing `normal` (snapped
+// to the nearest face direction) along `along`, towards its positive side for `dir` 1. The
+// layer turns about normal x drag, so the sticker ends up facing the way it
+// was pushed, as on a real cube.
+export function dragMove(cubie: CubeState, normal: Vec3, along: Axis, dir: 1 | -1): Move {
+  const drag: Vec3 = [0, 0, 0]
+  drag[AXIS_INDEX[along]] = dir
+  const turn = cross(faceNormal(normal), drag)
+  const axis = AXES.find((_, i) => turn[i] !== 0)
+  if (!axis) throw new Error(`Cannot drag a sticker facing ${normal.join(',')} along ${along}`)
+  return { axis, layer: cubie.position[AXIS_INDEX[axis]], dir: turn[AXIS_INDEX[axis]] as 1 | -1 }
+}
@@ -0,0 +1,158 @@
+// Facelet view of a 3x3 cube, in the layout used by Kociemba-style solvers.
+//
+// A facelet string lists 54 face letters, nine per face in URFDLB order.
+// Each face is read row by row as seen when looking straight at it, with U
+// read with B at the top, D read with F at the top, and R, F, L, B read with
+// U at the top. A letter names the face whose center has that color, so the
+// string does not depend on which color ended up on which side.
+
+import { type CubeState, type Orientation, type Vec3, createSolvedCube, worldColors } from './model'
+import { faceletsToCubie, verifyCubie } from './cubie'
+
+export const FACE_ORDER = ['U', 'R', 'F', 'D', 'L', 'B'] as const
+export type Face = (typeof FACE_ORDER)[number]
+
+// Sticker slot (see model.ts) facing outward on each face
+export const FACE_SLOT: Record<Face, number> = { R: 0, L: 1, U: 2, D: 3, F: 4, B: 5 }
+
+// Lattice position of the cubie carrying the facelet at `row`, `col` on `face`
+const FACELET_POSITION: Record<Face, (row: number, col: number) => Vec3> = {
+  U: (r, c) => [c, 2, r],
+  R: (r, c) => [2, 2 - r, 2 - c],
+  F: (r, c) => [c, 2 - r, 2],
+  D: (r, c) => [c, 0, 2 - r],
+  L: (r, c) => [0, 2 - r, c],
+  B: (r, c) => [2 - c, 2 - r, 0],
+}
+
+export function faceletPosition(index: number): { face: Face; position: Vec3 } {
+  const face = FACE_ORDER[Math.floor(index / 9)]
+  const i = index % 9
+  return { face, position: FACELET_POSITION[face](Math.floor(i / 3), i % 3) }
+}
+
+function findCubie(state: CubeState[], position: Vec3): CubeState {
+  const cubie = state.find(c => c.position.every((v, k) => v === position[k]))
+  if (!cubie) throw new Error(`No cubie at ${position.join(',')}`)
+  return cubie
+}
+
+// Reads the 54 sticker color ids in facelet order
+function readStickers(state: CubeState[]): string[] {
+  const stickers: string[] = []
+  for (let i = 0; i < 54; i++) {
+    const { face, position } = faceletPosition(i)
+    const color = worldColors(findCubie(state, position))[FACE_SLOT[face]]
+    if (color === null) throw new Error(`Missing sticker on ${face} at ${position.join(',')}`)
+    stickers.push(color)
+  }
+  return stickers
+}
+
+export function cubeToFacelets(state: CubeState[]): string {
+  const stickers = readStickers(state)
+  const faceOfColor = new Map<string, Face>()
+  FACE_ORDER.forEach((face, f) => faceOfColor.set(stickers[f * 9 + 4], face))
+  return stickers.map(color => faceOfColor.get(color) ?? '?').join('')
+}
+
+// Color id (see model.ts) of each face in the solved cube
+const FACE_COLOR: Record<Face, string> = { R: '0', L: '1', U: '2', D: '3', F: '4', B: '5' }
+
+// Checks that a facelet string describes a cube reachable from solved by
+// legal turns. Returns a description of the first problem found, or null.
+export function verifyFacelets(facelets: string): string | null {
+  if (facelets.length !== 54) return `Expected 54 facelets, got ${facelets.length}`
+  const invalid = [...facelets].findIndex(f => !FACE_ORDER.includes(f as Face))
+  if (invalid !== -1) return `Unexpected '${facelets[invalid]}' at position ${invalid + 1}; use only ${FACE_ORDER.join('')}`
+  for (const [f, face] of FACE_ORDER.entries()) {
+    if (facelets[f * 9 + 4] !== face) return `The center of ${face} must be ${face}`
+  }
+  for (const face of FACE_ORDER) {
+    const count = [...facelets].filter(f => f === face).length
+    if (count !== 9) return `${face} appears ${count} times instead of 9`
+  }
+  return verifyCubie(faceletsToCubie(facelets))
+}
+
+export class InvalidFaceletsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidFaceletsError'
+  }
+}
+
+// The 24 rotations of a cubie: signed permutation matrices with determinant 1
+const ORIENTATIONS: Orientation[] = (() => {
+  const axes: Vec3[] = [[1, 0, 0], [0, 1, 0], [0, 0, 1]]
+  const cross = (a: Vec3, b: Vec3): Vec3 => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ]
+  const result: Orientation[] = []
+  for (const x of axes) {
+    for (const y of axes) {
+      if (x === y) continue
+      for (const sx of [1, -1]) {
+        for (const sy of [1, -1]) {
+          const xAxis = x.map(v => v * sx || 0) as Vec3
+          const yAxis = y.map(v => v * sy || 0) as Vec3
+          result.push([xAxis, yAxis, cross(xAxis, yAxis).map(v => v || 0) as Vec3])
+        }
+      }
+    }
+  }
+  // The identity comes first, so pieces whose turn can't be seen (centers)
+  // are left unturned
+  return result
+})()
+
+// Builds a 3x3 cube from a facelet string, with pieces in the same order as
+// createSolvedCube(). Throws an InvalidFaceletsError for impossible cubes.
+export function faceletsToCube(facelets: string): CubeState[] {
+  const problem = verifyFacelets(facelets)
+  if (problem) throw new InvalidFaceletsError(problem)
+
+  // Colors seen at each lattice position, by world direction
+  const seen = new Map<string, (string | null)[]>()
+  for (let i = 0; i < 54; i++) {
+    const { face, position } = faceletPosition(i)
+    const key = position.join(',')
+    if (!seen.has(key)) seen.set(key, new Array(6).fill(null))
+    seen.get(key)![FACE_SLOT[face]] = FACE_COLOR[facelets[i] as Face]
+  }
+
+  const solved = createSolvedCube(3)
+  return solved.map(piece => {
+    for (const [key, colors] of seen) {
+      for (const orientation of ORIENTATIONS) {
+        const candidate = { position: key.split(',').map(Number) as Vec3, orientation, colors: piece.colors }
+        if (worldColors(candidate).every((c, k) => c === colors[k])) return candidate
+      }
+    }
+    throw new InvalidFaceletsError('A piece could not be placed')
+  })
+}
+
+// Index of the facelet shown by the sticker in `slot` of the cubie at
+// `position` on a 3x3, or -1 if that side of the cubie is hidden
+export function faceletIndexAt(position: Vec3, slot: number): number {
+  for (let i = 0; i < 54; i++) {
+    const facelet = faceletPosition(i)
+    if (FACE_SLOT[facelet.face] === slot && facelet.position.every((v, k) => v === position[k])) return i
+  }
+  return -1
+}
+
+// A 3x3 showing the given facelets as its stickers, without checking that the
+// position is possible. Pieces keep their solved orientation, so this is only
+// meant for display, e.g. while a position is painted in.
+export function faceletsToStickers(facelets: string): CubeState[] {
+  return createSolvedCube(3).map(piece => ({
+    ...piece,
+    colors: piece.colors.map((color, slot) =>
+      color === null ? null : FACE_COLOR[facelets[faceletIndexAt(piece.position, slot)] as Face]
+    ),
+  }))
+}
@@ -0,0 +1,103 @@
+// Keyboard layouts for turning the cube. A key map binds a key, as reported
+// by KeyboardEvent.key, to a move in notation (see notation.ts).
+
+export type KeyMap = Record<string, string>
+
+export type KeyMapPreset = {
+  id: string
+  name: string
+  bindings: KeyMap
+}
+
+// Moves that can be bound to a key, in the order the settings list them
+export const BINDABLE_MOVES = [
+  'R', "R'", 'L', "L'", 'U', "U'", 'D', "D'", 'F', "F'", 'B', "B'",
+  'M', "M'", 'E', "E'", 'S', "S'",
+  'r', "r'", 'l', "l'", 'u', "u'", 'd', "d'", 'f', "f'", 'b', "b'",
+  'x', "x'", 'y', "y'", 'z', "z'",
+]
+
+export const KEYMAP_PRESETS: KeyMapPreset[] = [
+  {
+    // The virtual cube layout shared by csTimer and qqTimer
+    id: 'cstimer',
+    name: 'csTimer / qqTimer',
+    bindings: {
+      i: 'R', k: "R'",
+      d: 'L', e: "L'",
+      j: 'U', f: "U'",
+      s: 'D', l: "D'",
+      h: 'F', g: "F'",
+      w: 'B', o: "B'",
+      '5': 'M', '6': 'M', x: "M'", '.': "M'",
+      u: 'r', m: "r'",
+      v: 'l', r: "l'",
+      t: 'x', y: 'x', b: "x'", n: "x'",
+      ';': 'y', a: "y'",
+      p: 'z', q: "z'",
+    },
+  },
+  {
+    // Face letters, with Shift for the prime turn
+    id: 'letters',
+    name: 'Face letters',
+    bindings: {
+      r: 'R', R: "R'",
+      l: 'L', L: "L'",
+      u: 'U', U: "U'",
+      d: 'D', D: "D'",
+      f: 'F', F: "F'",
+      b: 'B', B: "B'",
+      m: 'M', M: "M'",
+      e: 'E', E: "E'",
+      s: 'S', S: "S'",
+      x: 'x', X: "x'",
+      y: 'y', Y: "y'",
+      z: 'z', Z: "z'",
+    },
+  },
+]
+
+export const DEFAULT_PRESET_ID = 'cstimer'
+
+export type KeyMapSettings = {
+  // Preset the bindings came from, or 'custom' once they were edited
+  preset: string
+  bindings: KeyMap
+}
+
+const STORAGE_KEY = 'rubiks-cube:keymap'
+
+export function presetSettings(id: string): KeyMapSettings {
+  const preset = KEYMAP_PRESETS.find(p => p.id === id) ?? KEYMAP_PRESETS[0]
+  return { preset: preset.id, bindings: { ...preset.bindings } }
+}
+
+export function loadKeyMapSettings(): KeyMapSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored) as KeyMapSettings
+      if (typeof parsed.preset === 'string' && parsed.bindings && typeof parsed.bindings === 'object') {
+        return parsed
+      }
+    }
+  } catch {
+    // Unavailable storage or a corrupt entry falls back to the default layout
+  }
+  return presetSettings(DEFAULT_PRESET_ID)
+}
+
+export function saveKeyMapSettings(settings: KeyMapSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // Settings just won't persist, e.g. in private browsing
+  }
+}
+
+// Looks up the move bound to a key. Exact matches win so Shift bindings work;
+// otherwise letters match regardless of Caps Lock.
+export function moveForKey(bindings: KeyMap, key: string): string | undefined {
+  return bindings[key] ?? bindings[key.toLowerCase()]
+}
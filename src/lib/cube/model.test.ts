@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type Axis,
+  type CubeState,
+  type Move,
+  ALL_LAYERS,
+  applyMove,
+  applyMoves,
+  createSolvedCube,
+  cubesEqual,
+  invertMove,
+  isSolved,
+  worldColors,
+} from './model'
+import { parseNotation } from './notation'
+import { createRandom, randomInt } from './scramble'
+
+const SIZES = [2, 3, 4, 5]
+const AXES: Axis[] = ['x', 'y', 'z']
+
+// Every quarter turn a cube of `size` can make, including whole-cube rotations
+function allMoves(size: number): Move[] {
+  const layers: Move['layer'][] = [...Array.from({ length: size }, (_, i) => i), ALL_LAYERS]
+  return AXES.flatMap(axis => layers.flatMap(layer => [1, -1].map(dir => ({ axis, layer, dir }) as Move)))
+}
+
+function randomMoves(size: number, seed: string, length: number): Move[] {
+  const random = createRandom(seed)
+  const moves = allMoves(size)
+  return Array.from({ length }, () => moves[randomInt(random, moves.length)])
+}
+
+// Whether both cubes show the same stickers in the same places, ignoring
+// which way centers are turned since that can't be seen
+function looksEqual(a: CubeState[], b: CubeState[]): boolean {
+  const stickers = (state: CubeState[]) =>
+    state.map(c => `${c.position.join(',')}:${worldColors(c).join(',')}`).sort().join(' ')
+  return stickers(a) === stickers(b)
+}
+
+// Applies `moves` until the cube is back where it started
+function order(start: CubeState[], moves: Move[], equal = cubesEqual): number {
+  let state = applyMoves(start, moves)
+  let count = 1
+  while (!equal(state, start)) {
+    state = applyMoves(state, moves)
+    if (++count > 1260) throw new Error('No order found')
+  }
+  return count
+}
+
+describe.each(SIZES.map(size => ({ size, name: `${size}x${size}` })))('$name', ({ size }) => {
+  const scrambled = applyMoves(createSolvedCube(size), randomMoves(size, `scramble-${size}`, 40))
+
+  it('returns to the start after four quarter turns of any move', () => {
+    for (const move of allMoves(size)) {
+      expect(order(scrambled, [move])).toBe(4)
+    }
+  })
+
+  it('cancels every move with its inverse', () => {
+    for (const move of allMoves(size)) {
+      expect(cubesEqual(applyMove(applyMove(scrambled, move), invertMove(move)), scrambled)).toBe(true)
+    }
+  })
+
+  it('undoes a random sequence by playing the inverses backwards', () => {
+    const moves = randomMoves(size, `undo-${size}`, 60)
+    const undo = [...moves].reverse().map(invertMove)
+    expect(cubesEqual(applyMoves(applyMoves(scrambled, moves), undo), scrambled)).toBe(true)
+  })
+
+  it('keeps sticker counts and positions after random sequences', () => {
+    const solved = createSolvedCube(size)
+    const positions = (state: CubeState[]) => state.map(c => c.position.join(',')).sort()
+    for (let run = 0; run < 5; run++) {
+      const state = applyMoves(solved, randomMoves(size, `counts-${size}-${run}`, 50))
+      const counts = new Map<string, number>()
+      for (const cubie of state) {
+        for (const color of worldColors(cubie)) {
+          if (color !== null) counts.set(color, (counts.get(color) ?? 0) + 1)
+        }
+      }
+      expect(Object.fromEntries(counts)).toEqual(
+        Object.fromEntries(['0', '1', '2', '3', '4', '5'].map(color => [color, size * size]))
+      )
+      expect(positions(state)).toEqual(positions(solved))
+      // Stickers only ever face outward
+      for (const cubie of state) {
+        worldColors(cubie).forEach((color, slot) => {
+          if (color === null) return
+          const axis = slot >> 1
+          expect(cubie.position[axis]).toBe(slot % 2 === 0 ? size - 1 : 0)
+        })
+      }
+    }
+  })
+})
+
+describe('known algorithms', () => {
+  const solved = createSolvedCube(3)
+
+  it.each([
+    { name: 'sexy move', alg: "R U R' U'", expected: 6 },
+    { name: 'T-perm', alg: "R U R' U' R' F R2 U' R' U' R U R' F'", expected: 2 },
+    { name: 'Sune', alg: "R U R' U R U2 R'", expected: 6 },
+    { name: 'R U', alg: 'R U', expected: 105 },
+    { name: 'H-perm', alg: 'M2 U M2 U2 M2 U M2', expected: 2 },
+  ])('$name has order $expected', ({ alg, expected }) => {
+    expect(order(solved, parseNotation(alg), looksEqual)).toBe(expected)
+  })
+
+  it('leaves the cube unsolved until the last repetition', () => {
+    const sexy = parseNotation("R U R' U'")
+    let state = solved
+    for (let i = 1; i < 6; i++) {
+      state = applyMoves(state, sexy)
+      expect(isSolved(state)).toBe(false)
+    }
+    expect(isSolved(applyMoves(state, sexy))).toBe(true)
+  })
+
+  it('counts a whole-cube rotation as solved but not as equal', () => {
+    const rotated = applyMoves(solved, parseNotation('x y'))
+    expect(isSolved(rotated)).toBe(true)
+    expect(cubesEqual(rotated, solved)).toBe(false)
+  })
+})
@@ -0,0 +1,172 @@
+// Pure, render-independent model of an NxN cube.
+//
+// A cube is a flat list of the cubies on its surface (hidden inner pieces of
+// big cubes are left out). Each cubie stores its position on the integer
+// lattice, its orientation, and six sticker slots indexed by direction:
+//   0: +x (R)  1: -x (L)  2: +y (U)  3: -y (D)  4: +z (F)  5: -z (B)
+// A slot holds the id of the face color it shows ('0'..'5', same order) or
+// null when that side of the cubie is hidden inside the cube. Slots are in
+// the cubie's own frame, i.e. as it sat in the solved cube; `worldColors`
+// gives the colors by the direction they face now.
+
+export type Axis = 'x' | 'y' | 'z'
+
+export type Vec3 = [number, number, number]
+
+// World directions the cubie's own x, y and z axes point in, each a unit
+// vector along a world axis
+export type Orientation = [Vec3, Vec3, Vec3]
+
+export type CubeState = {
+  // Layer index along each axis, from 0 to size - 1
+  position: Vec3
+  orientation: Orientation
+  colors: (string | null)[]
+}
+
+export const ALL_LAYERS = 'all'
+
+// A quarter turn of one layer. Layers are numbered 0 to size - 1 from the
+// negative side of the axis, so on a 3x3 layer 0 of x is L and layer 2 is R.
+// A `layer` of ALL_LAYERS turns the whole cube, as the rotations x, y and z.
+export type Move = {
+  axis: Axis
+  layer: number | typeof ALL_LAYERS
+  dir: 1 | -1
+}
+
+export const MIN_SIZE = 2
+export const MAX_SIZE = 7
+
+export const AXIS_INDEX: Record<Axis, 0 | 1 | 2> = { x: 0, y: 1, z: 2 }
+
+// Unit vector of each sticker slot
+export const SLOT_DIRECTIONS: Vec3[] = [
+  [1, 0, 0], [-1, 0, 0],
+  [0, 1, 0], [0, -1, 0],
+  [0, 0, 1], [0, 0, -1],
+]
+
+const IDENTITY: Orientation = [[1, 0, 0], [0, 1, 0], [0, 0, 1]]
+
+export function createSolvedCube(size = 3): CubeState[] {
+  const state: CubeState[] = []
+  const last = size - 1
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      for (let z = 0; z < size; z++) {
+        const colors: (string | null)[] = [
+          x === last ? '0' : null,
+          x === 0 ? '1' : null,
+          y === last ? '2' : null,
+          y === 0 ? '3' : null,
+          z === last ? '4' : null,
+          z === 0 ? '5' : null,
+        ]
+        // Pieces without stickers are hidden inside the cube
+        if (colors.every(c => c === null)) continue
+        state.push({ position: [x, y, z], orientation: IDENTITY, colors })
+      }
+    }
+  }
+  return state
+}
+
+// Number of layers along each edge; the surface always reaches both ends
+export function cubeSize(state: CubeState[]): number {
+  return Math.max(...state.map(c => c.position[0])) + 1
+}
+
+export function cloneCube(state: CubeState[]): CubeState[] {
+  return state.map(c => ({
+    position: [...c.position] as Vec3,
+    orientation: c.orientation.map(v => [...v]) as Orientation,
+    colors: [...c.colors],
+  }))
+}
+
+export function isInLayer(cubie: CubeState, axis: Axis, layer: Move['layer']): boolean {
+  return layer === ALL_LAYERS || cubie.position[AXIS_INDEX[axis]] === layer
+}
+
+// Sticker colors by the world direction they face, indexed like `colors`
+export function worldColors(cubie: CubeState): (string | null)[] {
+  const result: (string | null)[] = new Array(6).fill(null)
+  cubie.colors.forEach((color, slot) => {
+    const sign = slot % 2 === 0 ? 1 : -1
+    const [x, y, z] = cubie.orientation[slot >> 1]
+    result[SLOT_DIRECTIONS.findIndex(d => d[0] === sign * x && d[1] === sign * y && d[2] === sign * z)] = color
+  })
+  return result
+}
+
+// Avoids -0 so equal states also serialize identically
+const neg = (v: number) => (v === 0 ? 0 : -v)
+
+// Rotates a vector a quarter turn about the origin. Positive `dir` is a
+// counter-clockwise turn when looking down the positive axis.
+function rotateVector([x, y, z]: Vec3, axis: Axis, dir: 1 | -1): Vec3 {
+  if (axis === 'x') return dir === 1 ? [x, neg(z), y] : [x, z, neg(y)]
+  if (axis === 'y') return dir === 1 ? [z, y, neg(x)] : [neg(z), y, x]
+  return dir === 1 ? [neg(y), x, z] : [y, neg(x), z]
+}
+
+// Turns a single cubie a quarter turn about the center of a cube of `size`.
+// Positions are doubled and centered first so the rotation stays in integers.
+function rotateCubie(cubie: CubeState, axis: Axis, dir: 1 | -1, size: number): CubeState {
+  const last = size - 1
+  const centered = cubie.position.map(v => 2 * v - last) as Vec3
+  return {
+    position: rotateVector(centered, axis, dir).map(v => (v + last) / 2) as Vec3,
+    orientation: cubie.orientation.map(v => rotateVector(v, axis, dir)) as Orientation,
+    colors: cubie.colors,
+  }
+}
+
+// Returns a new cube with `move` applied. The input is left untouched and
+// cubies outside the turned layer are shared with it.
+export function applyMove(state: CubeState[], move: Move): CubeState[] {
+  const size = cubeSize(state)
+  return state.map(c =>
+    isInLayer(c, move.axis, move.layer) ? rotateCubie(c, move.axis, move.dir, size) : c
+  )
+}
+
+export function applyMoves(state: CubeState[], moves: Move[]): CubeState[] {
+  return moves.reduce(applyMove, state)
+}
+
+export function invertMove(move: Move): Move {
+  return { ...move, dir: move.dir === 1 ? -1 : 1 }
+}
+
+// A cube is solved when every outer face shows a single color. Sticker slots
+// are in each cubie's own frame, so faces are read through `worldColors`;
+// this holds for any whole-cube orientation, including ones reached through
+// slice turns.
+export function isSolved(state: CubeState[]): boolean {
+  for (let face = 0; face < 6; face++) {
+    let faceColor: string | null = null
+    for (const cubie of state) {
+      const color = worldColors(cubie)[face]
+      if (!color) continue
+      if (faceColor === null) faceColor = color
+      else if (color !== faceColor) return false
+    }
+  }
+  return true
+}
+
+// Two cubes are equal when every cubie sits at the same position in the same
+// orientation. Cubie order is significant since it identifies the piece.
+export function cubesEqual(a: CubeState[], b: CubeState[]): boolean {
+  if (a.length !== b.length) return false
+  return a.every((c, i) => {
+    const other = b[i]
+    return (
+      c.position.every((v, k) => v === other.position[k]) &&
+      c.orientation.every((v, k) => v.every((n, j) => n === other.orientation[k][j])) &&
+      c.colors.every((color, k) => color === other.colors[k])
+    )
+  })
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { MOVE_CUBES, MOVE_NAMES, cubieToFacelets } from './cubie'
+import { cubeToFacelets } from './facelets'
+import { applyMoves, createSolvedCube } from './model'
+import { MAX_MOVES, MAX_REPEAT, MOVE_TABLE, NotationError, formatMove, parseNotation } from './notation'
+
+const faceletsAfter = (notation: string) => cubeToFacelets(applyMoves(createSolvedCube(), parseNotation(notation)))
+
+describe('face turn directions', () => {
+  // Where each clockwise face turn sends stickers, as facelet indices that
+  // end up showing a neighbouring face's color
+  const clockwise: [string, number[], string][] = [
+    ['R', [2, 5, 8], 'F'], // F's right column goes up
+    ['L', [27, 30, 33], 'F'], // F's left column goes down
+    ['U', [36, 37, 38], 'F'], // F's top row goes left
+    ['D', [15, 16, 17], 'F'], // F's bottom row goes right
+    ['F', [9, 12, 15], 'U'], // U's bottom row goes right
+    ['B', [36, 39, 42], 'U'], // U's top row goes left
+  ]
+
+  it.each(clockwise)('%s turns clockwise looking at the face', (face, indices, from) => {
+    const facelets = faceletsAfter(face)
+    expect(indices.map(i => facelets[i])).toEqual([from, from, from])
+  })
+
+  // The cubie tables follow the facelet layout of Kociemba solvers
+  it.each(MOVE_NAMES.map((name, i) => [name, i] as const))('%s matches the solver tables', (name, i) => {
+    expect(faceletsAfter(name)).toBe(cubieToFacelets(MOVE_CUBES[i]))
+  })
+})
+
+describe('MOVE_TABLE', () => {
+  it.each(Object.keys(MOVE_TABLE))('formats %s back to its own letter', letter => {
+    const [move] = parseNotation(letter)
+    expect(move.dir).toBe(MOVE_TABLE[letter].dir)
+    expect(formatMove(move)).toBe(letter)
+    expect(formatMove({ ...move, dir: move.dir === 1 ? -1 : 1 })).toBe(`${letter}'`)
+  })
+
+  it('turns the layers on the named side', () => {
+    expect(parseNotation('R L U D F B M E S')).toEqual([
+      { axis: 'x', layer: 2, dir: -1 },
+      { axis: 'x', layer: 0, dir: 1 },
+      { axis: 'y', layer: 2, dir: -1 },
+      { axis: 'y', layer: 0, dir: 1 },
+      { axis: 'z', layer: 2, dir: -1 },
+      { axis: 'z', layer: 0, dir: 1 },
+      { axis: 'x', layer: 1, dir: 1 },
+      { axis: 'y', layer: 1, dir: 1 },
+      { axis: 'z', layer: 1, dir: -1 },
+    ])
+  })
+})
+
+describe('repeated groups', () => {
+  it('expands a group the given number of times', () => {
+    expect(parseNotation("(R U R' U')6")).toHaveLength(24)
+  })
+
+  it.each([
+    ["(R U R' U')99999999", 12],
+    ['(R)999999999', 4],
+  ])('rejects the repeat count of %s', (input, position) => {
+    expect(() => parseNotation(input)).toThrow(new RegExp(`more than ${MAX_REPEAT} at position ${position}$`))
+  })
+
+  it('rejects nested groups that expand too far', () => {
+    expect(() => parseNotation('((R U)100)100')).toThrow(NotationError)
+    expect(() => parseNotation('((R U)100)100')).toThrow(/at position 11$/)
+  })
+
+  it('rejects sequences that expand too far in total', () => {
+    const input = Array.from({ length: 11 }, () => '((R U)50)10').join(' ')
+    expect(() => parseNotation(input)).toThrow(new RegExp(`longer than ${MAX_MOVES} moves`))
+  })
+})
+
+describe('errors', () => {
+  it.each([
+    { input: 'F (R U', size: 3, message: "Unclosed '(' at position 3" },
+    { input: 'R U) F', size: 3, message: "Unmatched ')' at position 4" },
+    { input: "R U'2", size: 3, message: 'Unexpected turn count after prime at position 5' },
+    { input: 'R Q', size: 3, message: "Unexpected character 'Q' at position 3" },
+    { input: 'R 4R', size: 3, message: 'Layer 4 does not exist on a 3x3 at position 3' },
+    { input: 'U 6Rw', size: 5, message: 'Layer 6 does not exist on a 5x5 at position 3' },
+  ])('reports $input at the offending token', ({ input, size, message }) => {
+    expect(() => parseNotation(input, size)).toThrow(expect.objectContaining({ name: 'NotationError', message }))
+  })
+})
@@ -0,0 +1,297 @@
+// Singmaster / WCA notation for the cube model.
+//
+// Supported tokens:
+//   R L U D F B        outer face quarter turns
+//   2R 3U ...          the Nth layer counted from that face (big cubes)
+//   M E S              middle slices (M follows L, E follows D, S follows F),
+//                      odd sizes only
+//   Rw r, Lw l, ...    wide turns (face plus the layer next to it)
+//   3Rw 3r ...         wide turns of the outer N layers
+//   x y z              whole-cube rotations (follow R, U and F)
+// each optionally followed by a turn count and/or a prime, e.g. R2, U', F2'.
+// Sequences can be grouped with parentheses and repeated: (R U R' U')3.
+
+import { type Axis, type Move, ALL_LAYERS } from './model'
+
+// One written move of a sequence, e.g. R2 or 3Rw', with the quarter-turn
+// layer moves it expands to
+export type NotationStep = {
+  notation: string
+  moves: Move[]
+}
+
+type MoveDefinition = {
+  axis: Axis
+  layers: Move['layer'][]
+  // Layer direction of a clockwise (unprimed) turn
+  dir: 1 | -1
+}
+
+// Where a move letter sits on the cube: an outer face on the positive or
+// negative side of its axis, the middle slice, or the whole cube
+export type MoveSide = 'positive' | 'negative' | 'middle' | 'all'
+
+export type MoveMapping = {
+  axis: Axis
+  side: MoveSide
+  // Layer direction of a clockwise (unprimed) turn
+  dir: 1 | -1
+}
+
+// The one mapping from WCA move letters to model moves. Clockwise is judged
+// looking at the named face, which means faces on the positive side of an
+// axis turn with dir -1 and faces on the negative side with dir 1. M, E and S
+// turn like L, D and F, and the rotations x, y and z like R, U and F. Buttons,
+// key bindings and scrambles all reach the model through this table.
+export const MOVE_TABLE: Record<string, MoveMapping> = {
+  R: { axis: 'x', side: 'positive', dir: -1 },
+  L: { axis: 'x', side: 'negative', dir: 1 },
+  U: { axis: 'y', side: 'positive', dir: -1 },
+  D: { axis: 'y', side: 'negative', dir: 1 },
+  F: { axis: 'z', side: 'positive', dir: -1 },
+  B: { axis: 'z', side: 'negative', dir: 1 },
+  M: { axis: 'x', side: 'middle', dir: 1 },
+  E: { axis: 'y', side: 'middle', dir: 1 },
+  S: { axis: 'z', side: 'middle', dir: -1 },
+  x: { axis: 'x', side: 'all', dir: -1 },
+  y: { axis: 'y', side: 'all', dir: -1 },
+  z: { axis: 'z', side: 'all', dir: -1 },
+}
+
+function findMapping(axis: Axis, side: MoveSide): [string, MoveMapping] {
+  return Object.entries(MOVE_TABLE).find(([, m]) => m.axis === axis && m.side === side)!
+}
+
+// Layer index of the layer `depth` steps in from a face (0 is the face itself)
+function faceLayer(face: MoveMapping, depth: number, size: number): number {
+  return face.side === 'positive' ? size - 1 - depth : depth
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from }, (_, i) => from + i)
+}
+
+const FACE_LETTERS = 'RLUDFB'
+const WIDE_LETTERS = 'rludfb'
+const SLICE_LETTERS = 'MES'
+const ROTATION_LETTERS = 'xyz'
+const PRIMES = "'’`"
+
+// Limits on repeated groups, so a typo like (R U)99999999 is reported rather
+// than expanded
+export const MAX_REPEAT = 100
+export const MAX_MOVES = 10000
+
+const countMoves = (steps: NotationStep[]) => steps.reduce((sum, step) => sum + step.moves.length, 0)
+
+export class NotationError extends Error {
+  // 0-based offset of the offending character in the input
+  readonly index: number
+
+  constructor(message: string, index: number) {
+    super(`${message} at position ${index + 1}`)
+    this.name = 'NotationError'
+    this.index = index
+  }
+}
+
+function expand(definition: MoveDefinition, turns: number): Move[] {
+  const quarterTurns = ((turns % 4) + 4) % 4
+  if (quarterTurns === 0) return []
+  // Three clockwise quarter turns are written out as one counter-clockwise turn
+  const dir = quarterTurns === 3 ? (-definition.dir as 1 | -1) : definition.dir
+  const count = quarterTurns === 3 ? 1 : quarterTurns
+  const moves: Move[] = []
+  for (let i = 0; i < count; i++) {
+    for (const layer of definition.layers) {
+      moves.push({ axis: definition.axis, layer, dir })
+    }
+  }
+  return moves
+}
+
+class Parser {
+  private pos = 0
+
+  constructor(
+    private readonly input: string,
+    private readonly size: number
+  ) {}
+
+  parse(): NotationStep[] {
+    const steps = this.parseSequence()
+    if (this.pos < this.input.length) {
+      throw new NotationError(`Unmatched ')'`, this.pos)
+    }
+    return steps
+  }
+
+  private peek(): string | undefined {
+    return this.input[this.pos]
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.input.length && /\s|,/.test(this.input[this.pos])) this.pos++
+  }
+
+  private parseSequence(): NotationStep[] {
+    const steps: NotationStep[] = []
+    let total = 0
+    for (;;) {
+      this.skipWhitespace()
+      const ch = this.peek()
+      if (ch === undefined || ch === ')') return steps
+      const start = this.pos
+      let added: NotationStep[]
+      if (ch === '(') {
+        added = this.parseGroup()
+      } else {
+        const moves = this.parseMove()
+        // Turn counts that are a multiple of four don't move anything
+        added = moves.length > 0 ? [{ notation: this.input.slice(start, this.pos), moves }] : []
+      }
+      total += countMoves(added)
+      if (total > MAX_MOVES) {
+        throw new NotationError(`Sequence is longer than ${MAX_MOVES} moves`, start)
+      }
+      steps.push(...added)
+    }
+  }
+
+  private parseGroup(): NotationStep[] {
+    const open = this.pos
+    this.pos++ // '('
+    const inner = this.parseSequence()
+    if (this.peek() !== ')') {
+      throw new NotationError(`Unclosed '('`, open)
+    }
+    this.pos++ // ')'
+    const countStart = this.pos
+    const repeat = this.parseCount() ?? 1
+    if (repeat > MAX_REPEAT) {
+      throw new NotationError(`Repeat count ${repeat} is more than ${MAX_REPEAT}`, countStart)
+    }
+    // Checked before expanding, since nested groups multiply
+    if (countMoves(inner) * repeat > MAX_MOVES) {
+      throw new NotationError(`Group expands to more than ${MAX_MOVES} moves`, countStart)
+    }
+    const steps: NotationStep[] = []
+    for (let i = 0; i < repeat; i++) steps.push(...inner)
+    return steps
+  }
+
+  private parseCount(): number | null {
+    const start = this.pos
+    while (this.pos < this.input.length && /[0-9]/.test(this.input[this.pos])) this.pos++
+    if (this.pos === start) return null
+    return parseInt(this.input.slice(start, this.pos), 10)
+  }
+
+  private parseMove(): Move[] {
+    const start = this.pos
+    // Layer count prefix of big cube moves, as in 2R or 3Rw
+    const prefix = this.parseCount()
+    const ch = this.peek()
+    let definition: MoveDefinition
+
+    if (ch !== undefined && (FACE_LETTERS.includes(ch) || WIDE_LETTERS.includes(ch))) {
+      this.pos++
+      const face = MOVE_TABLE[ch.toUpperCase()]
+      let wide = WIDE_LETTERS.includes(ch)
+      if (!wide && this.peek() === 'w') {
+        this.pos++
+        wide = true
+      }
+      const depth = prefix ?? (wide ? 2 : 1)
+      if (depth < 1 || depth > this.size) {
+        throw new NotationError(`Layer ${depth} does not exist on a ${this.size}x${this.size}`, start)
+      }
+      const layers = wide
+        ? range(0, depth).map(d => faceLayer(face, d, this.size))
+        : [faceLayer(face, depth - 1, this.size)]
+      definition = { axis: face.axis, layers, dir: face.dir }
+    } else if (prefix !== null) {
+      throw new NotationError(`Turn count '${prefix}' without a move`, start)
+    } else if (ch !== undefined && SLICE_LETTERS.includes(ch)) {
+      if (this.size % 2 === 0) {
+        throw new NotationError(`'${ch}' needs a middle layer, which a ${this.size}x${this.size} doesn't have`, start)
+      }
+      this.pos++
+      const slice = MOVE_TABLE[ch]
+      definition = { axis: slice.axis, layers: [(this.size - 1) / 2], dir: slice.dir }
+    } else if (ch !== undefined && ROTATION_LETTERS.includes(ch)) {
+      this.pos++
+      const rotation = MOVE_TABLE[ch]
+      definition = { axis: rotation.axis, layers: [ALL_LAYERS], dir: rotation.dir }
+    } else if (ch !== undefined && PRIMES.includes(ch)) {
+      throw new NotationError(`Prime without a move`, start)
+    } else {
+      throw new NotationError(`Unexpected character '${ch}'`, start)
+    }
+
+    let turns = this.parseCount() ?? 1
+    if (this.peek() !== undefined && PRIMES.includes(this.peek()!)) {
+      this.pos++
+      turns = -turns
+    }
+
+    const next = this.peek()
+    if (next !== undefined && /[0-9]/.test(next)) {
+      throw new NotationError(`Unexpected turn count after prime`, this.pos)
+    }
+
+    return expand(definition, turns)
+  }
+}
+
+// Parses a notation string into quarter-turn layer moves for a cube of the
+// given size. Throws a NotationError pointing at the first malformed token.
+export function parseNotation(input: string, size = 3): Move[] {
+  return parseNotationSteps(input, size).flatMap(step => step.moves)
+}
+
+// Like parseNotation, but keeps the moves of each written move together
+export function parseNotationSteps(input: string, size = 3): NotationStep[] {
+  return new Parser(input, size).parse()
+}
+
+// Returns the notation for a single layer move, e.g. R', M or 2R on big cubes.
+// Layers are named from the nearer face; the middle layer of odd cubes is M,
+// E or S. Whole-cube moves are the rotations x, y and z.
+export function formatMove(move: Move, size = 3): string {
+  if (move.layer !== ALL_LAYERS && (move.layer < 0 || move.layer >= size)) {
+    throw new Error(`No notation for layer ${move.layer} on axis ${move.axis}`)
+  }
+  let side: MoveSide
+  let depth = 0
+  if (move.layer === ALL_LAYERS) {
+    side = 'all'
+  } else if (size % 2 === 1 && move.layer === (size - 1) / 2) {
+    side = 'middle'
+  } else {
+    side = move.layer >= size / 2 ? 'positive' : 'negative'
+    depth = side === 'positive' ? size - 1 - move.layer : move.layer
+  }
+  const [letter, mapping] = findMapping(move.axis, side)
+  const name = depth === 0 ? letter : `${depth + 1}${letter}`
+  return move.dir === mapping.dir ? name : `${name}'`
+}
+
+// Formats layer moves as a notation string, folding repeated quarter turns
+// into half turns (R R -> R2).
+export function formatMoves(moves: Move[], size = 3): string {
+  const tokens: string[] = []
+  let i = 0
+  while (i < moves.length) {
+    const move = moves[i]
+    const next = moves[i + 1]
+    if (next && next.axis === move.axis && next.layer === move.layer && next.dir === move.dir) {
+      tokens.push(formatMove(move, size).replace("'", '') + '2')
+      i += 2
+    } else {
+      tokens.push(formatMove(move, size))
+      i += 1
+    }
+  }
+  return tokens.join(' ')
+}
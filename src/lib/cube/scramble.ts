@@ -0,0 +1,80 @@
+// Seeded scramble generation. The same seed always gives the same scramble,
+// so a seed can be shared to practice on an identical position.
+
+export type Random = () => number
+
+// xmur3 string hash feeding a mulberry32 generator
+export function createRandom(seed: string): Random {
+  let h = 1779033703 ^ seed.length
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353)
+    h = (h << 13) | (h >>> 19)
+  }
+  let state = h >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function randomInt(random: Random, n: number): number {
+  return Math.floor(random() * n)
+}
+
+// A short seed that is easy to read out or paste into chat
+export function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+const FACES = ['U', 'D', 'R', 'L', 'F', 'B']
+const SUFFIXES = ['', "'", '2']
+// Faces sharing an axis, so e.g. R L R can be avoided
+const AXIS_OF: Record<string, number> = { U: 0, D: 0, R: 1, L: 1, F: 2, B: 2 }
+
+// Scramble lengths used for each cube size, following WCA practice
+export const SCRAMBLE_LENGTHS: Record<number, number> = { 2: 11, 3: 25, 4: 40, 5: 60, 6: 80, 7: 100 }
+
+// Turns a scramble may use on a cube of `size`. A 2x2 only needs three faces
+// since the others just turn the whole cube; big cubes add wide turns up to
+// half the cube deep (Rw, 3Rw, ...).
+function scrambleTurns(size: number): string[] {
+  if (size === 2) return ['U', 'R', 'F']
+  const turns = [...FACES]
+  for (let depth = 2; depth <= Math.floor(size / 2); depth++) {
+    for (const face of FACES) turns.push(depth === 2 ? `${face}w` : `${depth}${face}w`)
+  }
+  return turns
+}
+
+const axisOf = (turn: string) => AXIS_OF[turn.replace(/[0-9]/g, '')[0]]
+
+// Random sequence of turns in which no turn can be merged with or cancelled
+// by an earlier one: turns on one axis commute, so within a run of turns on
+// the same axis each turn appears at most once (no R R, no R L R).
+export function randomMoveScramble(random: Random, length = 25, size = 3): string[] {
+  const turns = scrambleTurns(size)
+  const moves: string[] = []
+  let axis: number | null = null
+  // Turns made since the axis last changed
+  let run = new Set<string>()
+  while (moves.length < length) {
+    const turn = turns[randomInt(random, turns.length)]
+    if (axisOf(turn) !== axis) {
+      axis = axisOf(turn)
+      run = new Set()
+    } else if (run.has(turn)) {
+      continue
+    }
+    run.add(turn)
+    moves.push(turn + SUFFIXES[randomInt(random, SUFFIXES.length)])
+  }
+  return moves
+}
+
+// Inverts a sequence of face turns written in notation
+export function invertSequence(moves: string[]): string[] {
+  return [...moves].reverse().map(m => (m.endsWith("'") ? m.slice(0, -1) : m.endsWith('2') ? m : `${m}'`))
+}
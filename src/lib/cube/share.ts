@@ -0,0 +1,46 @@
+// Practice cases shared as links, e.g. /?scramble=R U R'&alg=F R U R' U' F'&size=3
+// Missing parameters fall back to a solved 3x3 with no algorithm.
+
+import { MAX_SIZE, MIN_SIZE } from './model'
+
+export type SharedCase = {
+  size: number
+  // Notation applied to the solved cube before starting
+  scramble: string
+  // Algorithm to practice, placed in the algorithm input
+  alg: string
+  // Whether the algorithm plays right after loading (?autoplay=1)
+  autoplay: boolean
+}
+
+export const DEFAULT_SIZE = 3
+
+export function readSharedCase(params: URLSearchParams): SharedCase {
+  const size = Number(params.get('size'))
+  return {
+    size: Number.isInteger(size) && size >= MIN_SIZE && size <= MAX_SIZE ? size : DEFAULT_SIZE,
+    scramble: params.get('scramble')?.trim() ?? '',
+    alg: params.get('alg')?.trim() ?? '',
+    autoplay: ['1', 'true'].includes(params.get('autoplay') ?? ''),
+  }
+}
+
+// Query string for a case, leaving out whatever is at its default
+export function sharedCaseSearch(shared: SharedCase): string {
+  const params = new URLSearchParams()
+  if (shared.size !== DEFAULT_SIZE) params.set('size', String(shared.size))
+  if (shared.scramble.trim()) params.set('scramble', shared.scramble.trim())
+  if (shared.alg.trim()) params.set('alg', shared.alg.trim())
+  if (shared.autoplay && shared.alg.trim()) params.set('autoplay', '1')
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
+
+// Mirrors a case into the address bar without adding history entries, so the
+// current URL can always be copied to share it
+export function replaceSharedCaseUrl(shared: SharedCase) {
+  const url = `${window.location.pathname}${sharedCaseSearch(shared)}${window.location.hash}`
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(window.history.state, '', url)
+  }
+}
@@ -0,0 +1,275 @@
+// Layer-by-layer beginner's method solver.
+//
+// Rather than the shortest solution this produces the moves a person learning
+// the beginner's method would make, grouped into the usual stages. The cross
+// is built on the D face; each later stage searches over a handful of
+// well-known algorithms (inserts, Sune, A- and U-perms) plus U adjustments
+// until the stage's pieces are in place.
+
+import {
+  type CubieCube,
+  MOVE_CUBES,
+  MOVE_NAMES,
+  faceletsToCubie,
+  isCubieSolved,
+  multiply,
+  verifyCubie,
+} from '../cubie'
+import { UnsolvableCubeError } from './two-phase'
+
+export type SolveStage = {
+  name: string
+  explanation: string
+  moves: string[]
+}
+
+type Macro = number[]
+
+function toMacro(notation: string): Macro {
+  return notation.split(' ').map(token => {
+    const index = MOVE_NAMES.indexOf(token)
+    if (index < 0) throw new Error(`Unknown face turn ${token}`)
+    return index
+  })
+}
+
+function applyMacro(cube: CubieCube, macro: Macro): CubieCube {
+  return macro.reduce((c, m) => multiply(c, MOVE_CUBES[m]), cube)
+}
+
+const AUF = ['U', 'U2', "U'"].map(toMacro)
+
+// Conjugates an algorithm by U turns so it acts on each side of the top layer
+function fromEachSide(notation: string): Macro[] {
+  return ['', 'U', 'U2', "U'"].map(setup => {
+    if (!setup) return toMacro(notation)
+    const undo = setup === 'U' ? "U'" : setup === "U'" ? 'U' : 'U2'
+    return toMacro(`${setup} ${notation} ${undo}`)
+  })
+}
+
+// Slots around the D layer as [front, right] faces when facing the slot
+const SLOTS: [string, string][] = [['F', 'R'], ['L', 'F'], ['B', 'L'], ['R', 'B']]
+// Corner slots DFR, DLF, DBL, DRB and edge slots FR, FL, BL, BR matching SLOTS
+const FIRST_LAYER_CORNERS = [4, 5, 6, 7]
+const MIDDLE_EDGES = [8, 9, 10, 11]
+const CROSS_EDGES = [4, 5, 6, 7]
+
+const edgeSolved = (c: CubieCube, i: number) => c.ep[i] === i && c.eo[i] === 0
+const cornerSolved = (c: CubieCube, i: number) => c.cp[i] === i && c.co[i] === 0
+
+// Iterative deepening over macros until `goal` holds. Consecutive U
+// adjustments are never tried since they merge into one.
+function searchMacros(
+  cube: CubieCube,
+  macros: Macro[],
+  goal: (c: CubieCube) => boolean,
+  maxDepth: number
+): { cube: CubieCube; moves: number[] } {
+  const isAuf = (macro: Macro) => AUF.includes(macro)
+  const path: Macro[] = []
+
+  const dfs = (c: CubieCube, depth: number, previous: Macro | null): CubieCube | null => {
+    if (depth === 0) return goal(c) ? c : null
+    for (const macro of macros) {
+      if (previous && isAuf(previous) && isAuf(macro)) continue
+      path.push(macro)
+      const found = dfs(applyMacro(c, macro), depth - 1, macro)
+      if (found) return found
+      path.pop()
+    }
+    return null
+  }
+
+  for (let depth = 0; depth <= maxDepth; depth++) {
+    const found = dfs(cube, depth, null)
+    if (found) return { cube: found, moves: path.flat() }
+  }
+  throw new Error('Beginner solver could not complete a stage')
+}
+
+// Distance table for the four cross edges, indexed by slot * 2 + flip of
+// each edge, built on first use.
+let crossTable: Int8Array | null = null
+
+// For each move, where an edge in each slot ends up and how it is flipped
+const EDGE_TARGET = MOVE_CUBES.map(move => {
+  const target: number[] = []
+  move.ep.forEach((from, to) => { target[from] = to })
+  return target
+})
+
+function crossIndex(c: CubieCube): number {
+  let index = 0
+  for (const edge of CROSS_EDGES) {
+    const slot = c.ep.indexOf(edge)
+    index = index * 24 + slot * 2 + c.eo[slot]
+  }
+  return index
+}
+
+function moveCrossIndex(index: number, m: number): number {
+  const move = MOVE_CUBES[m]
+  let result = 0
+  for (let k = 3; k >= 0; k--) {
+    const state = Math.floor(index / 24 ** k) % 24
+    const slot = Math.floor(state / 2)
+    const to = EDGE_TARGET[m][slot]
+    const flip = (state % 2 + move.eo[to]) % 2
+    result = result * 24 + to * 2 + flip
+  }
+  return result
+}
+
+function getCrossTable(): Int8Array {
+  if (crossTable) return crossTable
+  const table = new Int8Array(24 ** 4).fill(-1)
+  const start = crossIndex({
+    cp: [], co: [],
+    ep: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+    eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  })
+  const queue = [start]
+  table[start] = 0
+  for (let head = 0; head < queue.length; head++) {
+    const index = queue[head]
+    for (let m = 0; m < MOVE_CUBES.length; m++) {
+      const next = moveCrossIndex(index, m)
+      if (table[next] === -1) {
+        table[next] = table[index] + 1
+        queue.push(next)
+      }
+    }
+  }
+  crossTable = table
+  return table
+}
+
+function solveCross(cube: CubieCube): { cube: CubieCube; moves: number[] } {
+  const table = getCrossTable()
+  const moves: number[] = []
+  let index = crossIndex(cube)
+  while (table[index] > 0) {
+    const m = MOVE_CUBES.findIndex((_, m) => table[moveCrossIndex(index, m)] === table[index] - 1)
+    moves.push(m)
+    index = moveCrossIndex(index, m)
+  }
+  return { cube: applyMacro(cube, moves), moves }
+}
+
+// Merges consecutive turns of the same face, e.g. U U2 -> U'
+function simplify(moves: number[]): number[] {
+  const result: number[] = []
+  for (const m of moves) {
+    const last = result[result.length - 1]
+    if (last !== undefined && Math.floor(last / 3) === Math.floor(m / 3)) {
+      const face = Math.floor(m / 3)
+      const turns = ((last % 3) + 1 + (m % 3) + 1) % 4
+      result.pop()
+      if (turns !== 0) result.push(face * 3 + turns - 1)
+    } else {
+      result.push(m)
+    }
+  }
+  return result
+}
+
+// Solves a cube given as a facelet string (see facelets.ts) stage by stage
+export function solveBeginner(facelets: string): SolveStage[] {
+  let cube = faceletsToCubie(facelets)
+  const problem = verifyCubie(cube)
+  if (problem) throw new UnsolvableCubeError(problem)
+
+  const stages: SolveStage[] = []
+  const addStage = (name: string, explanation: string, moves: number[]) => {
+    stages.push({ name, explanation, moves: simplify(moves).map(m => MOVE_NAMES[m]) })
+  }
+
+  const cross = solveCross(cube)
+  cube = cross.cube
+  addStage(
+    'Cross',
+    'Bring the four edges of the bottom color down around the D center, each matching the center of its side face.',
+    cross.moves
+  )
+
+  const cornerMacros = [
+    ...AUF,
+    ...SLOTS.flatMap(([, right]) =>
+      [1, 2, 3, 4, 5].map(n => toMacro(Array(n).fill(`${right} U ${right}' U'`).join(' ')))
+    ),
+  ]
+  let cornerMoves: number[] = []
+  FIRST_LAYER_CORNERS.forEach((_, k) => {
+    const solved = FIRST_LAYER_CORNERS.slice(0, k + 1)
+    const result = searchMacros(cube, cornerMacros, c => solved.every(i => cornerSolved(c, i)), 4)
+    cube = result.cube
+    cornerMoves = cornerMoves.concat(result.moves)
+  })
+  addStage(
+    'First-layer corners',
+    "Turn U until a bottom corner sits above its slot, then repeat R U R' U' (seen from that slot) until it drops in correctly oriented.",
+    cornerMoves
+  )
+
+  const edgeMacros = [
+    ...AUF,
+    ...SLOTS.flatMap(([front, right]) => [
+      toMacro(`U ${right} U' ${right}' U' ${front}' U ${front}`),
+      toMacro(`U' ${front}' U ${front} U ${right} U' ${right}'`),
+    ]),
+  ]
+  let edgeMoves: number[] = []
+  MIDDLE_EDGES.forEach((_, k) => {
+    const solved = MIDDLE_EDGES.slice(0, k + 1)
+    const result = searchMacros(cube, edgeMacros, c => solved.every(i => edgeSolved(c, i)), 4)
+    cube = result.cube
+    edgeMoves = edgeMoves.concat(result.moves)
+  })
+  addStage(
+    'Second layer',
+    "Find a top edge without the top color, line it up with its side center and insert it to the right (U R U' R' U' F' U F) or left (U' L' U L U F U' F').",
+    edgeMoves
+  )
+
+  const ollEdges = searchMacros(
+    cube,
+    [...AUF, toMacro("F R U R' U' F'"), toMacro("F U R U' R' F'")],
+    c => [0, 1, 2, 3].every(i => c.eo[i] === 0),
+    5
+  )
+  const ollCorners = searchMacros(
+    ollEdges.cube,
+    [...AUF, toMacro("R U R' U R U2 R'"), toMacro("R U2 R' U' R U' R'")],
+    c => [0, 1, 2, 3].every(i => c.co[i] === 0),
+    7
+  )
+  cube = ollCorners.cube
+  addStage(
+    'OLL',
+    "Make a cross on top with F R U R' U' F' (dot, L shape, line), then orient the top corners with Sune R U R' U R U2 R' and its inverse, anti-Sune R U2 R' U' R U' R'.",
+    [...ollEdges.moves, ...ollCorners.moves]
+  )
+
+  const pllCorners = searchMacros(
+    cube,
+    [...AUF, ...fromEachSide("R' F R' B2 R F' R' B2 R2"), ...fromEachSide("R2 B2 R F R' B2 R F' R")],
+    c => [0, 1, 2, 3].every(i => c.cp[i] === i),
+    5
+  )
+  const pllEdges = searchMacros(
+    pllCorners.cube,
+    [...fromEachSide("R U' R U R U R U' R' U' R2"), ...fromEachSide("R2 U R U R' U' R' U' R' U R'")],
+    isCubieSolved,
+    3
+  )
+  cube = pllEdges.cube
+  addStage(
+    'PLL',
+    'Permute the top corners with A-perms until they all match their sides, then cycle the top edges with U-perms.',
+    [...pllCorners.moves, ...pllEdges.moves]
+  )
+
+  if (!isCubieSolved(cube)) throw new Error('Beginner solver did not reach the solved state')
+  return stages
+}
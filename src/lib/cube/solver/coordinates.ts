@@ -0,0 +1,137 @@
+// Integer coordinates over cubie cubes used by the two-phase solver.
+//
+// Phase 1 brings the cube into the subgroup <U, D, R2, L2, F2, B2> and works on
+// corner twist, edge flip and which slots hold the four E-slice edges.
+// Phase 2 solves within that subgroup using corner permutation, permutation
+// of the eight U/D edges and permutation of the slice edges.
+
+import { type CubieCube, solvedCubie } from '../cubie'
+
+export const N_TWIST = 2187 // 3^7
+export const N_FLIP = 2048 // 2^11
+export const N_SLICE = 495 // 12 choose 4
+export const N_CORNER_PERM = 40320 // 8!
+export const N_UD_EDGE_PERM = 40320 // 8!
+export const N_SLICE_PERM = 24 // 4!
+
+// First E-slice edge slot (FR); slots FR, FL, BL, BR are 8..11
+const SLICE_START = 8
+
+function choose(n: number, k: number): number {
+  if (k < 0 || k > n) return 0
+  let result = 1
+  for (let i = 0; i < k; i++) result = (result * (n - i)) / (i + 1)
+  return result
+}
+
+function rankPermutation(p: number[]): number {
+  let rank = 0
+  for (let i = 0; i < p.length; i++) {
+    let smaller = 0
+    for (let j = i + 1; j < p.length; j++) if (p[j] < p[i]) smaller++
+    rank = rank * (p.length - i) + smaller
+  }
+  return rank
+}
+
+function unrankPermutation(rank: number, n: number): number[] {
+  const digits: number[] = new Array(n)
+  for (let i = n - 1; i >= 0; i--) {
+    const base = n - i
+    digits[i] = rank % base
+    rank = Math.floor(rank / base)
+  }
+  const available = Array.from({ length: n }, (_, i) => i)
+  return digits.map(d => available.splice(d, 1)[0])
+}
+
+export function getTwist(c: CubieCube): number {
+  let twist = 0
+  for (let i = 0; i < 7; i++) twist = twist * 3 + c.co[i]
+  return twist
+}
+
+export function setTwist(c: CubieCube, twist: number) {
+  let sum = 0
+  for (let i = 6; i >= 0; i--) {
+    c.co[i] = twist % 3
+    sum += c.co[i]
+    twist = Math.floor(twist / 3)
+  }
+  c.co[7] = (3 - (sum % 3)) % 3
+}
+
+export function getFlip(c: CubieCube): number {
+  let flip = 0
+  for (let i = 0; i < 11; i++) flip = flip * 2 + c.eo[i]
+  return flip
+}
+
+export function setFlip(c: CubieCube, flip: number) {
+  let sum = 0
+  for (let i = 10; i >= 0; i--) {
+    c.eo[i] = flip % 2
+    sum += c.eo[i]
+    flip = Math.floor(flip / 2)
+  }
+  c.eo[11] = sum % 2
+}
+
+// Positions of the slice edges, ignoring their order. 0 when they are home.
+export function getSlice(c: CubieCube): number {
+  let slice = 0
+  let found = 0
+  for (let j = 11; j >= 0; j--) {
+    if (c.ep[j] >= SLICE_START) {
+      slice += choose(11 - j, found + 1)
+      found++
+    }
+  }
+  return slice
+}
+
+export function setSlice(c: CubieCube, slice: number) {
+  let x = 3
+  let other = 0
+  for (let j = 0; j < 12; j++) {
+    const value = choose(11 - j, x + 1)
+    if (x >= 0 && slice - value >= 0) {
+      c.ep[j] = SLICE_START + x
+      slice -= value
+      x--
+    } else {
+      c.ep[j] = other++
+    }
+  }
+}
+
+export function getCornerPerm(c: CubieCube): number {
+  return rankPermutation(c.cp)
+}
+
+export function setCornerPerm(c: CubieCube, perm: number) {
+  c.cp = unrankPermutation(perm, 8)
+}
+
+// Only meaningful once the slice edges are in the slice (phase 2)
+export function getUDEdgePerm(c: CubieCube): number {
+  return rankPermutation(c.ep.slice(0, SLICE_START))
+}
+
+export function setUDEdgePerm(c: CubieCube, perm: number) {
+  c.ep = [...unrankPermutation(perm, 8), ...c.ep.slice(SLICE_START)]
+}
+
+export function getSlicePerm(c: CubieCube): number {
+  return rankPermutation(c.ep.slice(SLICE_START).map(e => e - SLICE_START))
+}
+
+export function setSlicePerm(c: CubieCube, perm: number) {
+  c.ep = [...c.ep.slice(0, SLICE_START), ...unrankPermutation(perm, 4).map(e => e + SLICE_START)]
+}
+
+export function cubieWith(setter: (c: CubieCube, value: number) => void, value: number): CubieCube {
+  const c = solvedCubie()
+  setter(c, value)
+  return c
+}
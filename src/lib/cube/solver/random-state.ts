@@ -0,0 +1,43 @@
+// WCA-style random-state scrambles: pick a uniformly random reachable cube and
+// scramble with the inverse of its two-phase solution.
+
+import { type CubieCube, cubieToFacelets } from '../cubie'
+import { type Random, createRandom, invertSequence, randomInt } from '../scramble'
+import { solveFacelets } from './two-phase'
+
+function shuffle(items: number[], random: Random): number[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1)
+    ;[items[i], items[j]] = [items[j], items[i]]
+  }
+  return items
+}
+
+function parity(p: number[]): number {
+  let result = 0
+  for (let i = 0; i < p.length; i++) {
+    for (let j = i + 1; j < p.length; j++) if (p[j] < p[i]) result ^= 1
+  }
+  return result
+}
+
+export function randomCubie(random: Random): CubieCube {
+  const cp = shuffle([0, 1, 2, 3, 4, 5, 6, 7], random)
+  const ep = shuffle([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11], random)
+  // Corner and edge permutations must have the same parity
+  if (parity(cp) !== parity(ep)) [ep[10], ep[11]] = [ep[11], ep[10]]
+
+  const co = cp.map(() => randomInt(random, 3))
+  co[7] = (3 - (co.slice(0, 7).reduce((a, b) => a + b, 0) % 3)) % 3
+  const eo = ep.map(() => randomInt(random, 2))
+  eo[11] = eo.slice(0, 11).reduce((a, b) => a + b, 0) % 2
+
+  return { cp, co, ep, eo }
+}
+
+export function randomStateScramble(seed: string): string[] {
+  const facelets = cubieToFacelets(randomCubie(createRandom(seed)))
+  // No time limit so the result depends on the seed alone
+  const solution = solveFacelets(facelets, { targetLength: 21, timeLimitMs: Infinity })
+  return invertSequence(solution)
+}
@@ -0,0 +1,36 @@
+// Runs the solvers off the main thread. Tables are built on the first
+// request and kept for the lifetime of the worker.
+
+import { solveBeginner } from './beginner'
+import { randomStateScramble } from './random-state'
+import { solveFacelets } from './two-phase'
+
+export type SolverRequest =
+  | { id: number; method: 'two-phase' | 'beginner'; facelets: string }
+  | { id: number; method: 'scramble'; seed: string }
+
+export type SolverResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string }
+
+function run(request: SolverRequest): unknown {
+  switch (request.method) {
+    case 'two-phase':
+      return solveFacelets(request.facelets)
+    case 'beginner':
+      return solveBeginner(request.facelets)
+    case 'scramble':
+      return randomStateScramble(request.seed)
+  }
+}
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const request = event.data
+  let response: SolverResponse
+  try {
+    response = { id: request.id, result: run(request) }
+  } catch (e) {
+    response = { id: request.id, error: e instanceof Error ? e.message : String(e) }
+  }
+  self.postMessage(response)
+}
@@ -0,0 +1,248 @@
+// Kociemba two-phase solver.
+//
+// All move and pruning tables are generated on first use (a second or so on a
+// desktop machine), so this is meant to run inside a Web Worker, see
+// solver.worker.ts.
+
+import {
+  type CubieCube,
+  MOVE_CUBES,
+  MOVE_NAMES,
+  cloneCubie,
+  faceletsToCubie,
+  multiply,
+  verifyCubie,
+} from '../cubie'
+import {
+  N_CORNER_PERM,
+  N_FLIP,
+  N_SLICE,
+  N_SLICE_PERM,
+  N_TWIST,
+  N_UD_EDGE_PERM,
+  cubieWith,
+  getCornerPerm,
+  getFlip,
+  getSlice,
+  getSlicePerm,
+  getTwist,
+  getUDEdgePerm,
+  setCornerPerm,
+  setFlip,
+  setSlice,
+  setSlicePerm,
+  setTwist,
+  setUDEdgePerm,
+} from './coordinates'
+
+const N_MOVES = 18
+
+// U, U2, U', D, D2, D', R2, F2, L2, B2
+const PHASE2_MOVES = [0, 1, 2, 9, 10, 11, 4, 7, 13, 16]
+
+type Tables = {
+  twistMove: Uint16Array
+  flipMove: Uint16Array
+  sliceMove: Uint16Array
+  cornerPermMove: Uint16Array
+  udEdgePermMove: Uint16Array
+  slicePermMove: Uint8Array
+  twistSlicePrune: Int8Array
+  flipSlicePrune: Int8Array
+  cornerSlicePrune: Int8Array
+  edgeSlicePrune: Int8Array
+}
+
+let tables: Tables | null = null
+
+function buildMoveTable<T extends Uint8Array | Uint16Array>(
+  TableType: new (length: number) => T,
+  size: number,
+  moves: number[],
+  get: (c: CubieCube) => number,
+  set: (c: CubieCube, value: number) => void
+): T {
+  const table = new TableType(size * N_MOVES)
+  for (let value = 0; value < size; value++) {
+    const cube = cubieWith(set, value)
+    for (const m of moves) {
+      table[value * N_MOVES + m] = get(multiply(cube, MOVE_CUBES[m]))
+    }
+  }
+  return table
+}
+
+// Breadth-first distance to the solved state over a pair of coordinates
+function buildPruneTable(
+  size1: number,
+  size2: number,
+  move1: ArrayLike<number>,
+  move2: ArrayLike<number>,
+  moves: number[]
+): Int8Array {
+  const total = size1 * size2
+  const table = new Int8Array(total).fill(-1)
+  const queue = new Int32Array(total)
+  let head = 0
+  let tail = 0
+  table[0] = 0
+  queue[tail++] = 0
+  while (head < tail) {
+    const index = queue[head++]
+    const a = Math.floor(index / size2)
+    const b = index % size2
+    const depth = table[index]
+    for (const m of moves) {
+      const next = move1[a * N_MOVES + m] * size2 + move2[b * N_MOVES + m]
+      if (table[next] === -1) {
+        table[next] = depth + 1
+        queue[tail++] = next
+      }
+    }
+  }
+  return table
+}
+
+export function initTables(): Tables {
+  if (tables) return tables
+  const allMoves = Array.from({ length: N_MOVES }, (_, m) => m)
+
+  const twistMove = buildMoveTable(Uint16Array, N_TWIST, allMoves, getTwist, setTwist)
+  const flipMove = buildMoveTable(Uint16Array, N_FLIP, allMoves, getFlip, setFlip)
+  const sliceMove = buildMoveTable(Uint16Array, N_SLICE, allMoves, getSlice, setSlice)
+  const cornerPermMove = buildMoveTable(Uint16Array, N_CORNER_PERM, PHASE2_MOVES, getCornerPerm, setCornerPerm)
+  const udEdgePermMove = buildMoveTable(Uint16Array, N_UD_EDGE_PERM, PHASE2_MOVES, getUDEdgePerm, setUDEdgePerm)
+  const slicePermMove = buildMoveTable(Uint8Array, N_SLICE_PERM, PHASE2_MOVES, getSlicePerm, setSlicePerm)
+
+  tables = {
+    twistMove,
+    flipMove,
+    sliceMove,
+    cornerPermMove,
+    udEdgePermMove,
+    slicePermMove,
+    twistSlicePrune: buildPruneTable(N_TWIST, N_SLICE, twistMove, sliceMove, allMoves),
+    flipSlicePrune: buildPruneTable(N_FLIP, N_SLICE, flipMove, sliceMove, allMoves),
+    cornerSlicePrune: buildPruneTable(N_CORNER_PERM, N_SLICE_PERM, cornerPermMove, slicePermMove, PHASE2_MOVES),
+    edgeSlicePrune: buildPruneTable(N_UD_EDGE_PERM, N_SLICE_PERM, udEdgePermMove, slicePermMove, PHASE2_MOVES),
+  }
+  return tables
+}
+
+// Skip turning the same face twice in a row, and only allow one order of
+// two turns on opposite faces (U D, never D U) since they commute.
+function isRedundant(move: number, previous: number): boolean {
+  if (previous < 0) return false
+  const face = Math.floor(move / 3)
+  const previousFace = Math.floor(previous / 3)
+  return face === previousFace || previousFace - face === 3
+}
+
+export type SolveOptions = {
+  // Stop as soon as a solution of at most this many moves is found
+  targetLength?: number
+  // Give up improving the best solution found so far after this long
+  timeLimitMs?: number
+  // Longest solution worth returning
+  maxLength?: number
+}
+
+export class UnsolvableCubeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnsolvableCubeError'
+  }
+}
+
+// Solves a cube given as a facelet string (see facelets.ts) and returns the
+// solution as a list of face turns in notation, e.g. ["R", "U2", "F'"].
+export function solveFacelets(facelets: string, options: SolveOptions = {}): string[] {
+  const { targetLength = 20, timeLimitMs = 1500, maxLength = 24 } = options
+  const cube = faceletsToCubie(facelets)
+  const problem = verifyCubie(cube)
+  if (problem) throw new UnsolvableCubeError(problem)
+
+  const t = initTables()
+  const start = Date.now()
+  const path: number[] = []
+  let best: number[] | null = null
+  let bound = maxLength
+
+  const phase2 = (cornerPerm: number, udEdgePerm: number, slicePerm: number, togo: number, previous: number): boolean => {
+    if (togo === 0) return cornerPerm === 0 && udEdgePerm === 0 && slicePerm === 0
+    for (const m of PHASE2_MOVES) {
+      if (isRedundant(m, previous)) continue
+      const c = t.cornerPermMove[cornerPerm * N_MOVES + m]
+      const e = t.udEdgePermMove[udEdgePerm * N_MOVES + m]
+      const s = t.slicePermMove[slicePerm * N_MOVES + m]
+      const h = Math.max(t.cornerSlicePrune[c * N_SLICE_PERM + s], t.edgeSlicePrune[e * N_SLICE_PERM + s])
+      if (h >= togo) continue
+      path.push(m)
+      if (phase2(c, e, s, togo - 1, m)) return true
+      path.pop()
+    }
+    return false
+  }
+
+  const startPhase2 = (): boolean => {
+    let c = cloneCubie(cube)
+    for (const m of path) c = multiply(c, MOVE_CUBES[m])
+    const cornerPerm = getCornerPerm(c)
+    const udEdgePerm = getUDEdgePerm(c)
+    const slicePerm = getSlicePerm(c)
+    const h = Math.max(
+      t.cornerSlicePrune[cornerPerm * N_SLICE_PERM + slicePerm],
+      t.edgeSlicePrune[udEdgePerm * N_SLICE_PERM + slicePerm]
+    )
+    const phase1Length = path.length
+    const previous = phase1Length > 0 ? path[phase1Length - 1] : -1
+    for (let depth = h; phase1Length + depth <= bound; depth++) {
+      if (phase2(cornerPerm, udEdgePerm, slicePerm, depth, previous)) {
+        best = [...path]
+        bound = best.length - 1
+        path.length = phase1Length
+        return true
+      }
+    }
+    return false
+  }
+
+  const timedOut = () => best !== null && Date.now() - start > timeLimitMs
+  const done = () => (best !== null && best.length <= targetLength) || timedOut()
+
+  const phase1 = (twist: number, flip: number, slice: number, togo: number, previous: number): boolean => {
+    if (togo === 0) {
+      // A phase 1 solution ending in a phase 2 move was already tried one level up
+      if (previous >= 0 && PHASE2_MOVES.includes(previous)) return false
+      startPhase2()
+      return done()
+    }
+    for (let m = 0; m < N_MOVES; m++) {
+      if (isRedundant(m, previous)) continue
+      const tw = t.twistMove[twist * N_MOVES + m]
+      const fl = t.flipMove[flip * N_MOVES + m]
+      const sl = t.sliceMove[slice * N_MOVES + m]
+      const h = Math.max(t.twistSlicePrune[tw * N_SLICE + sl], t.flipSlicePrune[fl * N_SLICE + sl])
+      if (h >= togo) continue
+      path.push(m)
+      const stop = phase1(tw, fl, sl, togo - 1, m)
+      path.pop()
+      if (stop) return true
+    }
+    return false
+  }
+
+  const twist = getTwist(cube)
+  const flip = getFlip(cube)
+  const slice = getSlice(cube)
+  const h0 = Math.max(t.twistSlicePrune[twist * N_SLICE + slice], t.flipSlicePrune[flip * N_SLICE + slice])
+
+  for (let depth = h0; depth <= bound; depth++) {
+    if (phase1(twist, flip, slice, depth, -1)) break
+  }
+
+  if (best === null) {
+    throw new UnsolvableCubeError(`No solution within ${maxLength} moves`)
+  }
+  return (best as number[]).map(m => MOVE_NAMES[m])
+}
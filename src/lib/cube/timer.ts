@@ -0,0 +1,92 @@
+// Solve records and WCA-style session statistics.
+
+export type Penalty = 'none' | '+2' | 'DNF'
+
+export type SolveRecord = {
+  id: string
+  // Raw solve time in milliseconds, before penalties
+  time: number
+  penalty: Penalty
+  scramble: string
+  date: number
+}
+
+export const INSPECTION_MS = 15000
+// Starting after 15 s of inspection costs two seconds, after 17 s it's a DNF
+export const INSPECTION_DNF_MS = 17000
+
+export function inspectionPenalty(elapsed: number): Penalty {
+  if (elapsed > INSPECTION_DNF_MS) return 'DNF'
+  if (elapsed > INSPECTION_MS) return '+2'
+  return 'none'
+}
+
+// Time with penalties applied; a DNF counts as infinitely slow
+export function effectiveTime(solve: SolveRecord): number {
+  if (solve.penalty === 'DNF') return Infinity
+  return solve.penalty === '+2' ? solve.time + 2000 : solve.time
+}
+
+export function bestSingle(solves: SolveRecord[]): number | null {
+  if (solves.length === 0) return null
+  return Math.min(...solves.map(effectiveTime))
+}
+
+// Plain mean of the last `n` solves (mo3); any DNF makes it a DNF
+export function meanOf(solves: SolveRecord[], n: number): number | null {
+  if (solves.length < n) return null
+  const times = solves.slice(-n).map(effectiveTime)
+  return times.reduce((a, b) => a + b, 0) / n
+}
+
+// WCA average of the last `n` solves: the fastest and slowest 5% (at least
+// one each) are dropped and the rest averaged. DNFs count as the slowest, so
+// the average is a DNF once more of them remain than were trimmed.
+export function averageOf(solves: SolveRecord[], n: number): number | null {
+  if (solves.length < n) return null
+  const trim = Math.max(1, Math.ceil(n * 0.05))
+  const times = solves.slice(-n).map(effectiveTime).sort((a, b) => a - b)
+  const counted = times.slice(trim, n - trim)
+  return counted.reduce((a, b) => a + b, 0) / counted.length
+}
+
+// 9.87, 1:02.35 or DNF
+export function formatTime(ms: number | null): string {
+  if (ms === null) return '-'
+  if (!Number.isFinite(ms)) return 'DNF'
+  const centis = Math.floor(ms / 10)
+  const minutes = Math.floor(centis / 6000)
+  const seconds = Math.floor((centis % 6000) / 100)
+  const fraction = String(centis % 100).padStart(2, '0')
+  if (minutes > 0) return `${minutes}:${String(seconds).padStart(2, '0')}.${fraction}`
+  return `${seconds}.${fraction}`
+}
+
+export function formatSolve(solve: SolveRecord): string {
+  if (solve.penalty === 'DNF') return `DNF(${formatTime(solve.time)})`
+  if (solve.penalty === '+2') return `${formatTime(solve.time + 2000)}+`
+  return formatTime(solve.time)
+}
+
+const STORAGE_KEY = 'rubiks-cube:session'
+
+export function loadSession(): SolveRecord[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored)
+      if (Array.isArray(parsed)) return parsed as SolveRecord[]
+    }
+  } catch {
+    // Unavailable storage or a corrupt entry starts an empty session
+  }
+  return []
+}
+
+export function saveSession(solves: SolveRecord[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(solves))
+  } catch {
+    // The session just won't persist, e.g. in private browsing
+  }
+}